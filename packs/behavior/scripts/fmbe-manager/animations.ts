@@ -0,0 +1,260 @@
+import { world } from "@minecraft/server";
+import { isRecordField, now } from "./helpers.ts";
+import { writeWorldProperty } from "./storage.ts";
+import {
+  type AnimationEasing,
+  type AnimationKeyframe,
+  type AnimationMode,
+  type AnimationState,
+  type AnimationTimeline,
+  type RecordField,
+} from "./types.ts";
+
+const STORE_KEY = "fmbe:animations";
+
+export const ANIMATION_MODES: readonly AnimationMode[] = ["once", "loop", "pingpong"];
+export const ANIMATION_EASINGS: readonly AnimationEasing[] = ["linear", "easeIn", "easeOut", "easeInOut", "step"];
+
+let loaded = false;
+let timelines = new Map<string, AnimationTimeline>();
+
+function ensureLoaded(): void {
+  if (loaded) return;
+
+  const raw = world.getDynamicProperty(STORE_KEY);
+  if (typeof raw !== "string" || raw.length === 0) {
+    loaded = true;
+    return;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, Record<string, unknown>>;
+    timelines = new Map<string, AnimationTimeline>();
+    for (const [name, value] of Object.entries(parsed)) {
+      timelines.set(name, toTimeline({ ...value, name }));
+    }
+  } catch {
+    timelines = new Map<string, AnimationTimeline>();
+  }
+
+  loaded = true;
+}
+
+function save(): void {
+  const snapshot: Record<string, AnimationTimeline> = {};
+  for (const [name, timeline] of timelines) {
+    snapshot[name] = timeline;
+  }
+  writeWorldProperty(STORE_KEY, JSON.stringify(snapshot));
+}
+
+function toKeyframe(row: Record<string, unknown>): AnimationKeyframe | undefined {
+  const field = String(row.field ?? "");
+  if (!isRecordField(field)) return undefined;
+  const easing = String(row.easing ?? "linear") as AnimationEasing;
+  return {
+    tick: Math.max(0, Math.floor(Number(row.tick ?? 0))),
+    field,
+    value: Number(row.value ?? 0),
+    easing: ANIMATION_EASINGS.includes(easing) ? easing : "linear",
+  };
+}
+
+function toTimeline(row: Record<string, unknown>): AnimationTimeline {
+  const mode = String(row.mode ?? "once") as AnimationMode;
+  const state = String(row.state ?? "stopped") as AnimationState;
+  const keyframes = Array.isArray(row.keyframes) ? (row.keyframes as Record<string, unknown>[]) : [];
+  return {
+    name: String(row.name ?? ""),
+    targetKind: row.targetKind === "group" ? "group" : "record",
+    targetId: String(row.targetId ?? ""),
+    mode: ANIMATION_MODES.includes(mode) ? mode : "once",
+    state: state === "playing" || state === "paused" ? state : "stopped",
+    cursor: Math.max(0, Math.floor(Number(row.cursor ?? 0))),
+    direction: row.direction === -1 ? -1 : 1,
+    keyframes: keyframes
+      .map((value) => toKeyframe(value))
+      .filter((value): value is AnimationKeyframe => value !== undefined)
+      .sort((a, b) => a.tick - b.tick),
+    updatedAt: Number(row.updatedAt ?? now()),
+  };
+}
+
+function ease(easing: AnimationEasing, t: number): number {
+  switch (easing) {
+    case "linear":
+      return t;
+    case "easeIn":
+      return t * t;
+    case "easeOut":
+      return t * (2 - t);
+    case "easeInOut":
+      return t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
+    case "step":
+      return t < 1 ? 0 : 1;
+  }
+}
+
+export function getTimelineDuration(timeline: AnimationTimeline): number {
+  let duration = 0;
+  for (const keyframe of timeline.keyframes) {
+    if (keyframe.tick > duration) duration = keyframe.tick;
+  }
+  return duration;
+}
+
+export function sampleTimeline(timeline: AnimationTimeline, cursor: number): Map<RecordField, number> {
+  const byField = new Map<RecordField, AnimationKeyframe[]>();
+  for (const keyframe of timeline.keyframes) {
+    const list = byField.get(keyframe.field) ?? [];
+    list.push(keyframe);
+    byField.set(keyframe.field, list);
+  }
+
+  const values = new Map<RecordField, number>();
+  for (const [field, keyframes] of byField) {
+    const first = keyframes[0]!;
+    const last = keyframes[keyframes.length - 1]!;
+    if (cursor <= first.tick) {
+      values.set(field, first.value);
+      continue;
+    }
+    if (cursor >= last.tick) {
+      values.set(field, last.value);
+      continue;
+    }
+
+    for (let index = 0; index < keyframes.length - 1; index++) {
+      const from = keyframes[index]!;
+      const to = keyframes[index + 1]!;
+      if (cursor < from.tick || cursor > to.tick) continue;
+      const span = to.tick - from.tick;
+      const t = span === 0 ? 1 : ease(from.easing, (cursor - from.tick) / span);
+      values.set(field, from.value + (to.value - from.value) * t);
+      break;
+    }
+  }
+  return values;
+}
+
+function advanceCursor(timeline: AnimationTimeline): boolean {
+  const duration = getTimelineDuration(timeline);
+  if (duration === 0) {
+    timeline.state = "stopped";
+    return true;
+  }
+
+  const next = timeline.cursor + timeline.direction;
+  switch (timeline.mode) {
+    case "once":
+      if (next >= duration) {
+        timeline.cursor = duration;
+        timeline.state = "stopped";
+        return true;
+      }
+      timeline.cursor = next;
+      return false;
+    case "loop":
+      timeline.cursor = next > duration ? 0 : next;
+      return false;
+    case "pingpong":
+      if (next >= duration) {
+        timeline.cursor = duration;
+        timeline.direction = -1;
+      } else if (next <= 0) {
+        timeline.cursor = 0;
+        timeline.direction = 1;
+      } else {
+        timeline.cursor = next;
+      }
+      return false;
+  }
+}
+
+export function listTimelines(): AnimationTimeline[] {
+  ensureLoaded();
+  return [...timelines.values()]
+    .map((timeline) => ({ ...timeline, keyframes: [...timeline.keyframes] }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getTimeline(name: string): AnimationTimeline | undefined {
+  ensureLoaded();
+  const timeline = timelines.get(name);
+  return timeline ? { ...timeline, keyframes: [...timeline.keyframes] } : undefined;
+}
+
+export function createTimeline(timeline: Omit<AnimationTimeline, "updatedAt">): boolean {
+  ensureLoaded();
+  if (timelines.has(timeline.name)) return false;
+  timelines.set(timeline.name, { ...timeline, updatedAt: now() });
+  save();
+  return true;
+}
+
+export function deleteTimeline(name: string): boolean {
+  ensureLoaded();
+  if (!timelines.delete(name)) return false;
+  save();
+  return true;
+}
+
+export function setKeyframe(name: string, keyframe: AnimationKeyframe): boolean {
+  ensureLoaded();
+  const timeline = timelines.get(name);
+  if (!timeline) return false;
+  timeline.keyframes = timeline.keyframes
+    .filter((value) => value.tick !== keyframe.tick || value.field !== keyframe.field)
+    .concat(keyframe)
+    .sort((a, b) => a.tick - b.tick);
+  timeline.updatedAt = now();
+  save();
+  return true;
+}
+
+export function removeKeyframes(name: string, field?: RecordField, tick?: number): number {
+  ensureLoaded();
+  const timeline = timelines.get(name);
+  if (!timeline) return 0;
+  const before = timeline.keyframes.length;
+  timeline.keyframes = timeline.keyframes.filter((value) => {
+    if (field !== undefined && value.field !== field) return true;
+    if (tick !== undefined && value.tick !== tick) return true;
+    return false;
+  });
+  const removed = before - timeline.keyframes.length;
+  if (removed > 0) {
+    timeline.updatedAt = now();
+    save();
+  }
+  return removed;
+}
+
+export function setTimelineState(name: string, state: AnimationState, cursor?: number): AnimationTimeline | undefined {
+  ensureLoaded();
+  const timeline = timelines.get(name);
+  if (!timeline) return undefined;
+  timeline.state = state;
+  if (cursor !== undefined) {
+    timeline.cursor = Math.max(0, Math.min(Math.floor(cursor), getTimelineDuration(timeline)));
+  }
+  if (state === "stopped") timeline.direction = 1;
+  timeline.updatedAt = now();
+  save();
+  return { ...timeline, keyframes: [...timeline.keyframes] };
+}
+
+export function stepTimelines(): Array<{ timeline: AnimationTimeline; values: Map<RecordField, number> }> {
+  ensureLoaded();
+  const frames: Array<{ timeline: AnimationTimeline; values: Map<RecordField, number> }> = [];
+  let changed = false;
+
+  for (const timeline of timelines.values()) {
+    if (timeline.state !== "playing") continue;
+    if (advanceCursor(timeline)) changed = true;
+    frames.push({ timeline: { ...timeline }, values: sampleTimeline(timeline, timeline.cursor) });
+  }
+
+  if (changed) save();
+  return frames;
+}
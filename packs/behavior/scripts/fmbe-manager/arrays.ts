@@ -0,0 +1,82 @@
+import { type Vector3 } from "@minecraft/server";
+import { rotateYaw } from "./geometry.ts";
+
+export type ArrayPattern = "linear" | "grid" | "radial";
+
+export const ARRAY_PATTERNS: readonly ArrayPattern[] = ["linear", "grid", "radial"];
+
+export const MAX_ARRAY_COPIES = 256;
+
+export interface ArrayOptions {
+  pattern: ArrayPattern;
+  count: number;
+  rows: number;
+  layers: number;
+  spacing: Vector3;
+  rotationStep: number;
+  center?: Vector3;
+}
+
+export interface ArrayPlacement {
+  offset: Vector3;
+  yaw: number;
+}
+
+function getGridPlacements(options: ArrayOptions): ArrayPlacement[] {
+  const placements: ArrayPlacement[] = [];
+  for (let layer = 0; layer < options.layers; layer++) {
+    for (let row = 0; row < options.rows; row++) {
+      for (let column = 0; column < options.count; column++) {
+        const step = placements.length;
+        placements.push({
+          offset: { x: column * options.spacing.x, y: layer * options.spacing.y, z: row * options.spacing.z },
+          yaw: step * options.rotationStep,
+        });
+      }
+    }
+  }
+  return placements;
+}
+
+function getRadialPlacements(options: ArrayOptions): ArrayPlacement[] {
+  const center = options.center!;
+  const arm = { x: -center.x, y: 0, z: -center.z };
+  const angleStep = 360 / options.count;
+  const placements: ArrayPlacement[] = [];
+  for (let step = 0; step < options.count; step++) {
+    const rotated = rotateYaw(arm, step * angleStep);
+    placements.push({
+      offset: { x: center.x + rotated.x, y: 0, z: center.z + rotated.z },
+      yaw: step * (angleStep + options.rotationStep),
+    });
+  }
+  return placements;
+}
+
+export function getArrayCopyCount(options: Pick<ArrayOptions, "pattern" | "count" | "rows" | "layers">): number {
+  const total = options.pattern === "grid" ? options.count * options.rows * options.layers : options.count;
+  return total - 1;
+}
+
+export function validateArrayCopies(copies: number): void {
+  if (copies > MAX_ARRAY_COPIES) throw new Error(`array too large: ${copies} copies (max ${MAX_ARRAY_COPIES}).`);
+}
+
+export function getArrayPlacements(options: ArrayOptions): ArrayPlacement[] {
+  validateArrayCopies(getArrayCopyCount(options));
+  if (options.pattern === "radial" && !options.center) throw new Error("radial array requires a center.");
+
+  let placements: ArrayPlacement[];
+  if (options.pattern === "grid") {
+    placements = getGridPlacements(options);
+  } else if (options.pattern === "radial") {
+    placements = getRadialPlacements(options);
+  } else {
+    placements = Array.from({ length: options.count }, (_, step) => ({
+      offset: { x: step * options.spacing.x, y: step * options.spacing.y, z: step * options.spacing.z },
+      yaw: step * options.rotationStep,
+    }));
+  }
+
+  return placements.slice(1);
+}
@@ -0,0 +1,28 @@
+import { world } from "@minecraft/server";
+import { rotateYaw } from "./geometry.ts";
+import { getRecordField, setRecordField } from "./helpers.ts";
+import { type Attachment, type FmbeRecord } from "./types.ts";
+
+export function attachRecord(record: FmbeRecord): FmbeRecord {
+  if (!record.attachment) return record;
+  const target = world.getEntity(record.attachment.targetId);
+  if (!target?.isValid) return record;
+
+  const yaw = target.getRotation().y;
+  const offset = rotateYaw(record.attachment.offset, yaw);
+  const attached: FmbeRecord = {
+    ...record,
+    dimensionId: target.dimension.id,
+    x: target.location.x + offset.x,
+    y: target.location.y + offset.y,
+    z: target.location.z + offset.z,
+  };
+  if (!record.attachment.inheritYaw) return attached;
+  return setRecordField(attached, "yRot", getRecordField(record, "yRot") + yaw);
+}
+
+export function formatAttachment(attachment: Attachment): string {
+  const { x, y, z } = attachment.offset;
+  const name = world.getEntity(attachment.targetId)?.nameTag || attachment.targetId;
+  return `target=${name} offset=(${x.toFixed(2)}, ${y.toFixed(2)}, ${z.toFixed(2)}) inheritYaw=${attachment.inheritYaw}`;
+}
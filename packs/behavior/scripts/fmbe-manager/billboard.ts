@@ -0,0 +1,54 @@
+import { world } from "@minecraft/server";
+import { getGroupAncestors, getGroupForRecord, getGroupMeta } from "./groups.ts";
+import { getRecordField, setRecordField } from "./helpers.ts";
+import { type Billboard, type BillboardMode, type FmbeRecord } from "./types.ts";
+
+export const BILLBOARD_MODES: readonly BillboardMode[] = ["yaw", "full"];
+
+export interface Facing {
+  yaw: number;
+  pitch: number;
+}
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+export function getBillboard(record: FmbeRecord): Billboard | undefined {
+  if (record.billboard) return record.billboard;
+  const groupName = getGroupForRecord(record.id);
+  if (!groupName) return undefined;
+  for (const name of [groupName, ...getGroupAncestors(groupName)]) {
+    const billboard = getGroupMeta(name)?.billboard;
+    if (billboard) return billboard;
+  }
+  return undefined;
+}
+
+export function computeFacing(record: FmbeRecord, billboard: Billboard): Facing | undefined {
+  const location = { x: record.x, y: record.y, z: record.z };
+  const [player] = world.getDimension(record.dimensionId).getPlayers({
+    location,
+    closest: 1,
+    ...(billboard.player ? { name: billboard.player } : {}),
+  });
+  if (!player) return undefined;
+
+  const head = player.getHeadLocation();
+  const dx = head.x - location.x;
+  const dy = head.y - location.y;
+  const dz = head.z - location.z;
+  return {
+    yaw: -Math.atan2(dx, dz) * RAD_TO_DEG,
+    pitch: -Math.atan2(dy, Math.hypot(dx, dz)) * RAD_TO_DEG,
+  };
+}
+
+export function applyFacing(record: FmbeRecord, facing: Facing, mode: BillboardMode): FmbeRecord {
+  const posed = setRecordField(record, "yRot", getRecordField(record, "yRot") + facing.yaw);
+  if (mode !== "full") return posed;
+  return setRecordField(posed, "xRot", getRecordField(record, "xRot") + facing.pitch);
+}
+
+export function formatBillboard(billboard: Billboard | undefined): string {
+  if (!billboard) return "off";
+  return billboard.player ? `${billboard.mode} player=${billboard.player}` : `${billboard.mode} player=nearest`;
+}
@@ -0,0 +1,124 @@
+import { system, world, type Entity } from "@minecraft/server";
+import { evaluateExpression, parseExpression, type ExpressionNode } from "./expressions.ts";
+import { isRecordField, now } from "./helpers.ts";
+import { readParticipantScore } from "./scoreboard.ts";
+import { writeWorldProperty } from "./storage.ts";
+import { type FmbeBinding } from "./types.ts";
+
+const STORE_KEY = "fmbe:bindings";
+const SELF_PARTICIPANT = "@s";
+
+let loaded = false;
+let bindings = new Map<string, FmbeBinding>();
+const compiled = new Map<string, ExpressionNode | undefined>();
+
+function ensureLoaded(): void {
+  if (loaded) return;
+
+  const raw = world.getDynamicProperty(STORE_KEY);
+  if (typeof raw !== "string" || raw.length === 0) {
+    loaded = true;
+    return;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, Record<string, unknown>>;
+    bindings = new Map<string, FmbeBinding>();
+    for (const [name, value] of Object.entries(parsed)) {
+      const binding = toBinding({ ...value, name });
+      if (binding) bindings.set(name, binding);
+    }
+  } catch {
+    bindings = new Map<string, FmbeBinding>();
+  }
+
+  loaded = true;
+}
+
+function save(): void {
+  const snapshot: Record<string, FmbeBinding> = {};
+  for (const [name, binding] of bindings) {
+    snapshot[name] = binding;
+  }
+  writeWorldProperty(STORE_KEY, JSON.stringify(snapshot));
+}
+
+function toBinding(row: Record<string, unknown>): FmbeBinding | undefined {
+  const field = String(row.field ?? "");
+  if (!isRecordField(field)) return undefined;
+  return {
+    name: String(row.name ?? ""),
+    targetKind: row.targetKind === "group" ? "group" : "record",
+    targetId: String(row.targetId ?? ""),
+    field,
+    expression: String(row.expression ?? ""),
+    updatedAt: Number(row.updatedAt ?? now()),
+  };
+}
+
+function getCompiled(binding: FmbeBinding): ExpressionNode | undefined {
+  if (!compiled.has(binding.name)) {
+    try {
+      compiled.set(binding.name, parseExpression(binding.expression));
+    } catch {
+      compiled.set(binding.name, undefined);
+    }
+  }
+  return compiled.get(binding.name);
+}
+
+function resolveParticipant(participant: string, self: Entity | string | undefined): Entity | string | undefined {
+  if (participant === SELF_PARTICIPANT) return self;
+  return world.getPlayers({ name: participant })[0] ?? participant;
+}
+
+export function listBindings(): FmbeBinding[] {
+  ensureLoaded();
+  return [...bindings.values()].map((binding) => ({ ...binding })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getBinding(name: string): FmbeBinding | undefined {
+  ensureLoaded();
+  const binding = bindings.get(name);
+  return binding ? { ...binding } : undefined;
+}
+
+export function saveBinding(binding: FmbeBinding): boolean {
+  ensureLoaded();
+  parseExpression(binding.expression);
+  const existed = bindings.has(binding.name);
+  bindings.set(binding.name, { ...binding });
+  compiled.delete(binding.name);
+  save();
+  return existed;
+}
+
+export function deleteBinding(name: string): boolean {
+  ensureLoaded();
+  if (!bindings.delete(name)) return false;
+  compiled.delete(name);
+  save();
+  return true;
+}
+
+export function evaluateBindings(
+  resolveSelf: (binding: FmbeBinding) => Entity | string | undefined
+): Array<{ binding: FmbeBinding; value: number }> {
+  ensureLoaded();
+  const results: Array<{ binding: FmbeBinding; value: number }> = [];
+  for (const binding of bindings.values()) {
+    const node = getCompiled(binding);
+    if (!node) continue;
+
+    const self = resolveSelf(binding);
+    const value = evaluateExpression(node, {
+      tick: system.currentTick,
+      score: (objective, participant) => {
+        const target = resolveParticipant(participant, self);
+        return target === undefined ? undefined : readParticipantScore(objective, target);
+      },
+    });
+    if (Number.isFinite(value)) results.push({ binding, value });
+  }
+  return results;
+}
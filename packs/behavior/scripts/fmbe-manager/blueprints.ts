@@ -0,0 +1,156 @@
+import { world, type Vector3 } from "@minecraft/server";
+import { normalizeTransform, now } from "./helpers.ts";
+import { mirrorPoint, mirrorTransform, rotateYaw, type MirrorAxis } from "./geometry.ts";
+import { chunkString, writeWorldProperty } from "./storage.ts";
+import { type Blueprint, type BlueprintMember, type FmbePreset, type FmbeRecord, type StoredTransform } from "./types.ts";
+
+const STORE_KEY = "fmbe:blueprints";
+const PAYLOAD_PREFIX = "fmbe:blueprint:";
+
+interface BlueprintIndexEntry {
+  sourceGroup: string;
+  memberCount: number;
+  chunks: number;
+  createdAt: number;
+}
+
+let loaded = false;
+let index = new Map<string, BlueprintIndexEntry>();
+
+function payloadKey(name: string, chunk: number): string {
+  return `${PAYLOAD_PREFIX}${name}:${chunk}`;
+}
+
+function ensureLoaded(): void {
+  if (loaded) return;
+
+  index = new Map<string, BlueprintIndexEntry>();
+  const raw = world.getDynamicProperty(STORE_KEY);
+  if (typeof raw === "string" && raw.length > 0) {
+    try {
+      const parsed = JSON.parse(raw) as Record<string, Partial<BlueprintIndexEntry>>;
+      for (const [name, value] of Object.entries(parsed)) {
+        index.set(name, {
+          sourceGroup: String(value.sourceGroup ?? ""),
+          memberCount: Number(value.memberCount ?? 0),
+          chunks: Math.max(0, Math.floor(Number(value.chunks ?? 0))),
+          createdAt: Number(value.createdAt ?? now()),
+        });
+      }
+    } catch {
+      index = new Map<string, BlueprintIndexEntry>();
+    }
+  }
+
+  loaded = true;
+}
+
+function save(): void {
+  const snapshot: Record<string, BlueprintIndexEntry> = {};
+  for (const [name, entry] of index) {
+    snapshot[name] = entry;
+  }
+  writeWorldProperty(STORE_KEY, JSON.stringify(snapshot));
+}
+
+function clearPayload(name: string): void {
+  const entry = index.get(name);
+  if (!entry) return;
+  for (let chunk = 0; chunk < entry.chunks; chunk++) {
+    writeWorldProperty(payloadKey(name, chunk), undefined);
+  }
+}
+
+function toMember(row: Record<string, unknown>): BlueprintMember {
+  const preset = String(row.preset ?? "item") as FmbePreset;
+  return {
+    preset: preset === "block2d" || preset === "block3d" ? preset : "item",
+    blockTypeId: row.blockTypeId == null ? null : String(row.blockTypeId),
+    itemTypeId: row.itemTypeId == null ? null : String(row.itemTypeId),
+    dx: Number(row.dx ?? 0),
+    dy: Number(row.dy ?? 0),
+    dz: Number(row.dz ?? 0),
+    transform: normalizeTransform((row.transform ?? {}) as StoredTransform),
+  };
+}
+
+export function captureBlueprint(name: string, sourceGroup: string, records: FmbeRecord[], origin: Vector3): Blueprint {
+  return {
+    name,
+    sourceGroup,
+    members: records.map((record) => ({
+      preset: record.preset,
+      blockTypeId: record.blockTypeId,
+      itemTypeId: record.itemTypeId,
+      dx: record.x - origin.x,
+      dy: record.y - origin.y,
+      dz: record.z - origin.z,
+      transform: normalizeTransform(record.transform),
+    })),
+    createdAt: now(),
+  };
+}
+
+export function placeBlueprintMember(
+  member: BlueprintMember,
+  target: Vector3,
+  rotation: number,
+  mirror: MirrorAxis
+): { x: number; y: number; z: number; transform: StoredTransform } {
+  const local = rotateYaw(mirrorPoint({ x: member.dx, y: member.dy, z: member.dz }, mirror), rotation);
+  const mirrored = mirrorTransform(member.transform, mirror);
+  return {
+    x: target.x + local.x,
+    y: target.y + local.y,
+    z: target.z + local.z,
+    transform: normalizeTransform({ ...mirrored, yRot: (mirrored.yRot ?? 0) + rotation }),
+  };
+}
+
+export function listBlueprints(): Array<Omit<Blueprint, "members"> & { memberCount: number }> {
+  ensureLoaded();
+  return [...index.entries()]
+    .map(([name, entry]) => ({ name, sourceGroup: entry.sourceGroup, memberCount: entry.memberCount, createdAt: entry.createdAt }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getBlueprint(name: string): Blueprint | undefined {
+  ensureLoaded();
+  const entry = index.get(name);
+  if (!entry) return undefined;
+
+  let payload = "";
+  for (let chunk = 0; chunk < entry.chunks; chunk++) {
+    const part = world.getDynamicProperty(payloadKey(name, chunk));
+    if (typeof part !== "string") throw new Error(`blueprint chunk missing for ${name}: ${chunk}`);
+    payload += part;
+  }
+
+  const rows = payload.length > 0 ? (JSON.parse(payload) as Record<string, unknown>[]) : [];
+  return { name, sourceGroup: entry.sourceGroup, members: rows.map((row) => toMember(row)), createdAt: entry.createdAt };
+}
+
+export function saveBlueprint(blueprint: Blueprint): boolean {
+  ensureLoaded();
+  const existed = index.has(blueprint.name);
+  clearPayload(blueprint.name);
+  const chunks = chunkString(JSON.stringify(blueprint.members));
+  chunks.forEach((chunk, position) => writeWorldProperty(payloadKey(blueprint.name, position), chunk));
+  index.set(blueprint.name, {
+    sourceGroup: blueprint.sourceGroup,
+    memberCount: blueprint.members.length,
+    chunks: chunks.length,
+    createdAt: blueprint.createdAt,
+  });
+  save();
+  return existed;
+}
+
+export function deleteBlueprint(name: string): boolean {
+  ensureLoaded();
+  if (!index.has(name)) return false;
+  clearPayload(name);
+  index.delete(name);
+  save();
+  return true;
+}
@@ -14,16 +14,43 @@ import {
 } from "@minecraft/server";
 import { MinecraftDimensionTypes } from "@minecraft/vanilla-data";
 import { addPendingGet } from "./state.ts";
-import { getAllRecords, getRecordById, removeRecordById, upsertRecord } from "./db.ts";
+import {
+  ANIMATION_EASINGS,
+  ANIMATION_MODES,
+  createTimeline,
+  deleteTimeline,
+  getTimeline,
+  getTimelineDuration,
+  listTimelines,
+  sampleTimeline,
+  setKeyframe,
+  setTimelineState,
+} from "./animations.ts";
+import {
+  getAllRecords,
+  getRecordById,
+  getRecordsInBox,
+  getRecordsInRadius,
+  removeRecordById,
+  upsertRecord,
+} from "./db.ts";
 import {
   clearRecordGroup,
   createGroup,
   deleteGroup,
+  getChildGroups,
+  getGroupAncestors,
   getGroupForRecord,
   getGroupMembers,
+  getGroupMembersDeep,
+  getGroupMeta,
+  getGroupParent,
+  getGroupTree,
   hasGroup,
   listGroups,
   removeRecordFromGroups,
+  setGroupMeta,
+  setGroupParent,
   setRecordGroup,
 } from "./groups.ts";
 import {
@@ -32,24 +59,111 @@ import {
   getAllManagedEntities,
   isManagedEntity,
   removeManagedEntity,
+  resolveTargetEntity,
   spawnFromRecord,
   toEntityRecord,
 } from "./entities.ts";
 import {
+  DIMENSIONS,
   DP_ID,
+  RECORD_FIELDS,
   formatRecord,
   generateUuidLike,
+  getOriginDimensionId,
+  getOriginLocation,
   getOriginPlayer,
+  getRecordField,
+  normalizeTransform,
   now,
+  parseRelativeValue,
   presetFromAnyEnum,
   presetFromBlockEnum,
   presetToDisplay,
   sendToOrigin,
+  setRecordField,
+  TRANSFORM_KEYS,
   toTransform,
 } from "./helpers.ts";
-import { type FmbeDataMode, type FmbeRecord } from "./types.ts";
+import {
+  type AnimationEasing,
+  type AnimationMode,
+  type AnimationTimeline,
+  type Billboard,
+  type BillboardMode,
+  type FmbeBinding,
+  type FmbeDataMode,
+  type FmbeRecord,
+  type FmbeTemplate,
+  type MotionKind,
+  type RecordField,
+  type RecordMotion,
+  type StoredTransform,
+} from "./types.ts";
 import { readGroupScores, removeGroupScores } from "./scoreboard.ts";
+import {
+  GROUP_OPERATION_TARGETS,
+  GROUP_OPERATION_TYPES,
+  type GroupOperationTarget,
+  type GroupOperationType,
+} from "./operations.ts";
 import { getHelpLines, HELP_COMMAND_OPTIONS, HELP_LANGUAGE_OPTIONS } from "./help.ts";
+import { applyGroupOperation, applyTimelineFrame, refreshGroupMembers, rotateGroup } from "./runtime.ts";
+import { openRecordEditor } from "./editor.ts";
+import { isStreamed } from "./streaming.ts";
+import {
+  ARRAY_PATTERNS,
+  getArrayCopyCount,
+  getArrayPlacements,
+  validateArrayCopies,
+  type ArrayPattern,
+} from "./arrays.ts";
+import { formatAttachment } from "./attachments.ts";
+import { BILLBOARD_MODES, formatBillboard } from "./billboard.ts";
+import { deleteBinding, listBindings, saveBinding } from "./bindings.ts";
+import { captureBlueprint, deleteBlueprint, getBlueprint, listBlueprints, placeBlueprintMember, saveBlueprint } from "./blueprints.ts";
+import { AXES, getCentroid, type Axis, type MirrorAxis } from "./geometry.ts";
+import {
+  ALIGN_MODES,
+  alignRecords,
+  distributeRecords,
+  mirrorRecords,
+  snapRecordLocations,
+  snapRecordRotations,
+  type AlignMode,
+} from "./layout.ts";
+import {
+  BOB_FIELDS,
+  formatMotion,
+  MOTION_KINDS,
+  SPIN_FIELDS,
+  validatePeriod,
+  withMotion,
+  withoutMotion,
+} from "./motion.ts";
+import { deleteTemplate, getTemplate, listTemplates, saveTemplate, templateFromRecord } from "./templates.ts";
+import {
+  filterRecords,
+  getDistance,
+  LIST_ORDERS,
+  LIST_SORT_KEYS,
+  paginate,
+  sortRecords,
+  type ListFilter,
+  type ListSortKey,
+} from "./listing.ts";
+import { beginHistory, getHistorySize, getJournalOwner, redoHistory, undoHistory, SHARED_JOURNAL } from "./history.ts";
+import { getSettings, isSettingKey, setSetting, SETTING_KEYS } from "./settings.ts";
+import { MAX_QUERY_RADIUS, MAX_QUERY_SPAN } from "./spatial.ts";
+import {
+  getBackupInfo,
+  getLatestVersion,
+  getSchemaPin,
+  getSchemaVersion,
+  rollbackSchema,
+  SCHEMA_KEYS,
+  unpinSchema,
+  type SchemaKey,
+} from "./migrations.ts";
 
 function registerManagedCommand(
   registry: CustomCommandRegistry,
@@ -112,6 +226,140 @@ function validateGroupName(value: unknown): string {
   return groupName;
 }
 
+function validateAnimationName(value: unknown): string {
+  const name = String(value ?? "").trim();
+  if (name.length === 0) throw new Error("name must not be empty.");
+  if (name.length > 64) throw new Error("animation name too long.");
+  return name;
+}
+
+function validateTemplateName(value: unknown): string {
+  const name = String(value ?? "").trim();
+  if (name.length === 0) throw new Error("template must not be empty.");
+  if (name.length > 64) throw new Error("template name too long.");
+  return name;
+}
+
+function validateBindingName(value: unknown): string {
+  const name = String(value ?? "").trim();
+  if (name.length === 0) throw new Error("binding must not be empty.");
+  if (name.length > 64) throw new Error("binding name too long.");
+  return name;
+}
+
+function getTemplateOrThrow(value: unknown): FmbeTemplate {
+  const name = validateTemplateName(value);
+  const template = getTemplate(name);
+  if (!template) throw new Error(`template not found: ${name}`);
+  return template;
+}
+
+function validateBlueprintName(value: unknown): string {
+  const name = String(value ?? "").trim();
+  if (name.length === 0) throw new Error("blueprint must not be empty.");
+  if (name.length > 64) throw new Error("blueprint name too long.");
+  return name;
+}
+
+function mergeTransform(base: StoredTransform, overrides: StoredTransform): StoredTransform {
+  const next: StoredTransform = { ...base };
+  for (const key of TRANSFORM_KEYS) {
+    if (overrides[key] !== undefined) next[key] = overrides[key];
+  }
+  return normalizeTransform(next);
+}
+
+function getTimelineOrThrow(name: string): AnimationTimeline {
+  const timeline = getTimeline(name);
+  if (!timeline) throw new Error(`animation not found: ${name}`);
+  return timeline;
+}
+
+function formatTemplate(template: FmbeTemplate): string {
+  return `${template.name} preset=${presetToDisplay(template.preset)} type=${template.typeId ?? "-"}`;
+}
+
+function formatBinding(binding: FmbeBinding): string {
+  return `${binding.name} target=${binding.targetKind}:${binding.targetId} ${binding.field} <- ${binding.expression}`;
+}
+
+function updateSelectedRecords(
+  origin: CustomCommandOrigin,
+  label: string,
+  entity: unknown,
+  update: (row: FmbeRecord) => FmbeRecord
+): number {
+  const targets = getManagedSelectedEntities(entity);
+  const history = beginHistory(getJournalOwner(origin), label);
+  for (const target of targets) {
+    const row = getEntityRecordOrThrow(target);
+    history.capture(row.id);
+    upsertRecord({ ...update(row), updatedAt: now() });
+  }
+  history.commit();
+  return targets.length;
+}
+
+function toBillboardOption(mode: unknown, player: unknown): Billboard | undefined {
+  if (mode === "off") return undefined;
+  const name = String(player ?? "").trim();
+  return name.length > 0 ? { mode: mode as BillboardMode, player: name } : { mode: mode as BillboardMode };
+}
+
+function getLayoutRecords(
+  origin: CustomCommandOrigin,
+  entity: unknown,
+  group: unknown,
+  radius: unknown,
+  from: unknown,
+  to: unknown
+): FmbeRecord[] {
+  const area = getAreaRecords(origin, radius, from, to);
+  if (area) {
+    if (entity !== undefined || group !== undefined) throw new Error("specify only one of entity, group or area.");
+    if (area.length === 0) throw new Error("area matched no FMBE.");
+    return area;
+  }
+  if (typeof group === "string" && group.trim().length > 0) {
+    if (entity !== undefined) throw new Error("specify either entity or group, not both.");
+    const groupName = validateGroupName(group);
+    if (!hasGroup(groupName)) throw new Error(`group not found: ${groupName}`);
+    const records = getGroupMembersDeep(groupName).flatMap((id) => getRecordById(id) ?? []);
+    if (records.length === 0) throw new Error(`group has no members: ${groupName}`);
+    return records;
+  }
+  return getManagedSelectedEntities(entity).map((target) => getEntityRecordOrThrow(target));
+}
+
+function applyLayout(
+  origin: CustomCommandOrigin,
+  label: string,
+  records: FmbeRecord[],
+  layout: (records: FmbeRecord[]) => FmbeRecord[]
+): number {
+  const history = beginHistory(getJournalOwner(origin), label);
+  for (const row of layout(records)) {
+    const next: FmbeRecord = { ...row, updatedAt: now() };
+    history.capture(next.id);
+    upsertRecord(next);
+    const target = findEntityByFmbeId(next.id);
+    if (target) applyRecordToEntity(target, next);
+  }
+  history.commit();
+  return records.length;
+}
+
+function formatTimeline(timeline: AnimationTimeline): string {
+  return (
+    `${timeline.name} ` +
+    `target=${timeline.targetKind}:${timeline.targetId} ` +
+    `mode=${timeline.mode} ` +
+    `state=${timeline.state} ` +
+    `tick=${timeline.cursor}/${getTimelineDuration(timeline)} ` +
+    `keys=${timeline.keyframes.length}`
+  );
+}
+
 function asEntityArray(value: unknown): Entity[] {
   if (!Array.isArray(value)) return [];
   return value as Entity[];
@@ -124,14 +372,65 @@ function getManagedSelectedEntities(value: unknown): Entity[] {
   return managed;
 }
 
+const AREA_PARAMETERS = [
+  { type: CustomCommandParamType.Float, name: "radius" },
+  { type: CustomCommandParamType.Location, name: "from" },
+  { type: CustomCommandParamType.Location, name: "to" },
+];
+
+function getAreaRecords(
+  origin: CustomCommandOrigin,
+  radius: unknown,
+  from: unknown,
+  to: unknown
+): FmbeRecord[] | undefined {
+  const dimensionId = getOriginDimensionId(origin);
+  const fromPos = from as Vector3 | undefined;
+  const toPos = to as Vector3 | undefined;
+
+  if (fromPos && toPos) {
+    const span = Math.max(Math.abs(toPos.x - fromPos.x), Math.abs(toPos.y - fromPos.y), Math.abs(toPos.z - fromPos.z));
+    if (span > MAX_QUERY_SPAN) throw new Error(`area too large: ${span.toFixed(0)} (max ${MAX_QUERY_SPAN} blocks per axis)`);
+    return getRecordsInBox(dimensionId, fromPos, toPos);
+  }
+  if (typeof radius === "number") {
+    if (!Number.isFinite(radius) || radius < 0) throw new Error(`invalid radius: ${radius}`);
+    if (radius > MAX_QUERY_RADIUS) throw new Error(`radius too large: ${radius} (max ${MAX_QUERY_RADIUS})`);
+    const center = fromPos ?? getOriginLocation(origin);
+    if (!center) throw new Error("radius requires a center. specify from or run from an entity/block.");
+    return getRecordsInRadius(dimensionId, center, radius);
+  }
+  if (fromPos || toPos) throw new Error("area requires both from and to, or a radius.");
+  return undefined;
+}
+
 export function registerCommands(): void {
   system.beforeEvents.startup.subscribe((startup) => {
     const { customCommandRegistry: registry } = startup;
 
     registry.registerEnum("fmbe:create_block_preset", ["2D", "3D"]);
-    registry.registerEnum("fmbe:list_preset", ["Item", "2D", "3D"]);
+    registry.registerEnum("fmbe:list_preset", ["Any", "Item", "2D", "3D"]);
+    registry.registerEnum("fmbe:list_sort", [...LIST_SORT_KEYS]);
+    registry.registerEnum("fmbe:list_order", [...LIST_ORDERS]);
+    registry.registerEnum("fmbe:axis", [...AXES]);
+    registry.registerEnum("fmbe:group_op_target", [...GROUP_OPERATION_TARGETS]);
+    registry.registerEnum("fmbe:group_op_type", [...GROUP_OPERATION_TYPES]);
+    registry.registerEnum("fmbe:dimension", DIMENSIONS.map((dimensionId) => dimensionId.replace(/^minecraft:/, "")));
     registry.registerEnum("fmbe:set_preset", ["Item", "2D", "3D"]);
     registry.registerEnum("fmbe:data_content", ["cleanup", "fix", "validate", "info"]);
+    registry.registerEnum("fmbe:anim_mode", [...ANIMATION_MODES]);
+    registry.registerEnum("fmbe:anim_field", [...RECORD_FIELDS]);
+    registry.registerEnum("fmbe:anim_easing", [...ANIMATION_EASINGS]);
+    registry.registerEnum("fmbe:motion_kind", [...MOTION_KINDS]);
+    registry.registerEnum("fmbe:billboard_mode", ["off", ...BILLBOARD_MODES]);
+    registry.registerEnum("fmbe:array_pattern", [...ARRAY_PATTERNS]);
+    registry.registerEnum("fmbe:align_mode", [...ALIGN_MODES]);
+    registry.registerEnum("fmbe:motion_spin_field", [...SPIN_FIELDS]);
+    registry.registerEnum("fmbe:motion_bob_field", [...BOB_FIELDS]);
+    registry.registerEnum("fmbe:history_journal", ["self", SHARED_JOURNAL]);
+    registry.registerEnum("fmbe:setting_key", [...SETTING_KEYS]);
+    registry.registerEnum("fmbe:schema_action", ["info", "rollback", "unpin"]);
+    registry.registerEnum("fmbe:schema_key", [...SCHEMA_KEYS]);
     registry.registerEnum("fmbe:help_language", [...HELP_LANGUAGE_OPTIONS]);
     registry.registerEnum("fmbe:help_command", [...HELP_COMMAND_OPTIONS]);
 
@@ -168,9 +467,11 @@ export function registerCommands(): void {
           { type: CustomCommandParamType.Float, name: "yOffset" },
           { type: CustomCommandParamType.Float, name: "zOffset" },
           { type: CustomCommandParamType.Float, name: "scale" },
+          { type: CustomCommandParamType.String, name: "template" },
         ],
       },
-      (origin, block, preset, location, xOffset, yOffset, zOffset, scale) => {
+      (origin, block, preset, location, xOffset, yOffset, zOffset, scale, template) => {
+        const baseTransform = template === undefined ? {} : getTemplateOrThrow(template).transform;
         const fmbeId = generateRecordId();
         const blockTypeId = (block as BlockType).id;
         const presetValue = presetFromBlockEnum(String(preset));
@@ -189,12 +490,15 @@ export function registerCommands(): void {
           x: spawnLocation.x,
           y: spawnLocation.y,
           z: spawnLocation.z,
-          transform: toTransform({ xOffset, yOffset, zOffset, scale }),
+          transform: mergeTransform(baseTransform, toTransform({ xOffset, yOffset, zOffset, scale })),
           updatedAt: now(),
         };
 
+        const history = beginHistory(getJournalOwner(origin), "create_block");
+        history.capture(fmbeId);
         const entity = spawnFromRecord(record);
         upsertRecord(record);
+        history.commit();
         sendToOrigin(origin, `§a[FMBE] block created: ${fmbeId} (${presetToDisplay(record.preset)}) runtimeId=${entity.id}`);
       }
     );
@@ -212,9 +516,11 @@ export function registerCommands(): void {
           { type: CustomCommandParamType.Float, name: "yOffset" },
           { type: CustomCommandParamType.Float, name: "zOffset" },
           { type: CustomCommandParamType.Float, name: "scale" },
+          { type: CustomCommandParamType.String, name: "template" },
         ],
       },
-      (origin, item, location, xOffset, yOffset, zOffset, scale) => {
+      (origin, item, location, xOffset, yOffset, zOffset, scale, template) => {
+        const baseTransform = template === undefined ? {} : getTemplateOrThrow(template).transform;
         const fmbeId = generateRecordId();
         const itemTypeId = (item as ItemType).id;
         const sourcePlayer = getOriginPlayer(origin);
@@ -231,33 +537,189 @@ export function registerCommands(): void {
           x: spawnLocation.x,
           y: spawnLocation.y,
           z: spawnLocation.z,
-          transform: toTransform({ xOffset, yOffset, zOffset, scale }),
+          transform: mergeTransform(baseTransform, toTransform({ xOffset, yOffset, zOffset, scale })),
           updatedAt: now(),
         };
 
+        const history = beginHistory(getJournalOwner(origin), "create_item");
+        history.capture(fmbeId);
         const entity = spawnFromRecord(record);
         upsertRecord(record);
+        history.commit();
         sendToOrigin(origin, `§a[FMBE] item created: ${fmbeId} runtimeId=${entity.id}`);
       }
     );
 
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:template_save", "Save FMBE as template"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.String, name: "name" },
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+        ],
+      },
+      (origin, name, entity) => {
+        const templateName = validateTemplateName(name);
+        const targets = getManagedSelectedEntities(entity);
+        if (targets.length !== 1) throw new Error("template_save entity selector must match exactly one FMBE.");
+
+        const template = templateFromRecord(templateName, getEntityRecordOrThrow(targets[0]!));
+        const replaced = saveTemplate(template);
+        sendToOrigin(origin, `§a[FMBE] template ${replaced ? "updated" : "saved"}: ${formatTemplate(template)}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:template_list", "List templates"),
+      },
+      (origin) => {
+        const templates = listTemplates();
+        if (templates.length === 0) {
+          sendToOrigin(origin, "§e[FMBE] no templates.");
+          return;
+        }
+
+        sendToOrigin(origin, `§b[FMBE] templates=${templates.length}`);
+        for (const template of templates) sendToOrigin(origin, `§7- ${formatTemplate(template)}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:template_delete", "Delete template"),
+        mandatoryParameters: [{ type: CustomCommandParamType.String, name: "name" }],
+      },
+      (origin, name) => {
+        const templateName = validateTemplateName(name);
+        if (!deleteTemplate(templateName)) throw new Error(`template not found: ${templateName}`);
+        sendToOrigin(origin, `§a[FMBE] template deleted: ${templateName}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:template_create", "Create FMBE from template"),
+        mandatoryParameters: [{ type: CustomCommandParamType.String, name: "name" }],
+        optionalParameters: [{ type: CustomCommandParamType.Location, name: "location" }],
+      },
+      (origin, name, location) => {
+        const template = getTemplateOrThrow(name);
+        if (!template.typeId) throw new Error(`template has no type id: ${template.name}`);
+
+        const fmbeId = generateRecordId();
+        const sourcePlayer = getOriginPlayer(origin);
+        const sourceDimensionId = sourcePlayer?.dimension.id ?? MinecraftDimensionTypes.Overworld;
+        const sourceLocation = sourcePlayer?.location ?? { x: 0, y: 80, z: 0 };
+        const spawnLocation = (location as Vector3 | undefined) ?? sourceLocation;
+
+        const record: FmbeRecord = {
+          id: fmbeId,
+          preset: template.preset,
+          blockTypeId: template.preset === "item" ? null : template.typeId,
+          itemTypeId: template.preset === "item" ? template.typeId : null,
+          dimensionId: sourceDimensionId,
+          x: spawnLocation.x,
+          y: spawnLocation.y,
+          z: spawnLocation.z,
+          transform: { ...template.transform },
+          updatedAt: now(),
+        };
+
+        const history = beginHistory(getJournalOwner(origin), "template_create");
+        history.capture(fmbeId);
+        const entity = spawnFromRecord(record);
+        upsertRecord(record);
+        history.commit();
+        sendToOrigin(origin, `§a[FMBE] created from template ${template.name}: ${fmbeId} runtimeId=${entity.id}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:template_apply", "Apply template transform to FMBE"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.String, name: "name" },
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+        ],
+      },
+      (origin, name, entity) => {
+        const template = getTemplateOrThrow(name);
+        const targets = getManagedSelectedEntities(entity);
+        const history = beginHistory(getJournalOwner(origin), "template_apply");
+        for (const target of targets) {
+          const row = getEntityRecordOrThrow(target);
+          const next: FmbeRecord = { ...row, transform: { ...template.transform }, updatedAt: now() };
+          history.capture(row.id);
+          upsertRecord(next);
+          applyRecordToEntity(target, next);
+        }
+        history.commit();
+        sendToOrigin(origin, `§a[FMBE] template_apply done template=${template.name} count=${targets.length}`);
+      }
+    );
+
     registerManagedCommand(
       registry,
       {
         ...commandBase("fmbe:list", "List FMBE records"),
-        optionalParameters: [{ type: CustomCommandParamType.Enum, name: "preset", enumName: "fmbe:list_preset" }],
+        optionalParameters: [
+          { type: CustomCommandParamType.Enum, name: "preset", enumName: "fmbe:list_preset" },
+          { type: CustomCommandParamType.Integer, name: "page" },
+          { type: CustomCommandParamType.Integer, name: "pageSize" },
+          { type: CustomCommandParamType.Enum, name: "sort", enumName: "fmbe:list_sort" },
+          { type: CustomCommandParamType.Enum, name: "order", enumName: "fmbe:list_order" },
+          { type: CustomCommandParamType.String, name: "group" },
+          { type: CustomCommandParamType.Enum, name: "dimension", enumName: "fmbe:dimension" },
+          { type: CustomCommandParamType.String, name: "type" },
+          { type: CustomCommandParamType.Float, name: "radius" },
+          { type: CustomCommandParamType.Location, name: "from" },
+          { type: CustomCommandParamType.Location, name: "to" },
+          { type: CustomCommandParamType.Float, name: "newerThan" },
+          { type: CustomCommandParamType.Float, name: "olderThan" },
+        ],
       },
-      (origin, preset) => {
-        const rows = getAllRecords();
-        const filter = typeof preset === "string" ? presetFromAnyEnum(preset) : undefined;
-        const filtered = filter ? rows.filter((row) => row.preset === filter) : rows;
-        if (filtered.length === 0) {
+      (origin, preset, page, pageSize, sort, order, group, dimension, type, radius, from, to, newerThan, olderThan) => {
+        const filter: ListFilter = {};
+        if (typeof preset === "string" && preset !== "Any") filter.preset = presetFromAnyEnum(preset);
+        if (group !== undefined) {
+          const groupName = validateGroupName(group);
+          if (!hasGroup(groupName)) throw new Error(`group not found: ${groupName}`);
+          filter.groupIds = new Set(getGroupMembers(groupName));
+        }
+        if (typeof dimension === "string") filter.dimensionId = `minecraft:${dimension}`;
+        if (typeof type === "string" && type.trim().length > 0) {
+          const typeId = type.trim();
+          filter.typeId = typeId.includes(":") ? typeId : `minecraft:${typeId}`;
+        }
+        if (typeof newerThan === "number") filter.newerThan = now() - newerThan * 60000;
+        if (typeof olderThan === "number") filter.olderThan = now() - olderThan * 60000;
+
+        const center = (from as Vector3 | undefined) ?? getOriginLocation(origin);
+        const sortKey = (typeof sort === "string" ? sort : "id") as ListSortKey;
+        const rows = sortRecords(
+          filterRecords(getAreaRecords(origin, radius, from, to) ?? getAllRecords(), filter),
+          sortKey,
+          order === "desc" ? "desc" : "asc",
+          center
+        );
+        if (rows.length === 0) {
           sendToOrigin(origin, "§e[FMBE] no entries.");
           return;
         }
 
-        sendToOrigin(origin, `§b[FMBE] ${filtered.length} entries`);
-        for (const row of filtered) sendToOrigin(origin, `§7- ${formatRecord(row)}`);
+        const result = paginate(rows, page as number | undefined, pageSize as number | undefined);
+        sendToOrigin(origin, `§b[FMBE] ${result.total} entries`);
+        for (const row of result.rows) {
+          const distance = center ? ` dist=${getDistance(row, center).toFixed(1)}` : "";
+          sendToOrigin(origin, `§7- ${formatRecord(row)}${distance}`);
+        }
+        sendToOrigin(origin, `§7page ${result.page} of ${result.pages}`);
       }
     );
 
@@ -282,8 +744,13 @@ export function registerCommands(): void {
       },
       (origin, group) => {
         const groupName = validateGroupName(group);
+        const history = beginHistory(getJournalOwner(origin), "group_delete");
+        history.captureGroup(groupName);
+        for (const child of getChildGroups(groupName)) history.captureGroup(child);
+        for (const id of getGroupMembers(groupName)) history.capture(id);
         const removedMembers = deleteGroup(groupName);
         if (!removedMembers) throw new Error(`group not found: ${groupName}`);
+        history.commit();
 
         removeGroupScores(groupName);
         for (const id of removedMembers) {
@@ -314,18 +781,21 @@ export function registerCommands(): void {
             if (!row) continue;
             sendToOrigin(origin, `§7- ${formatRecord(row)}`);
           }
+          for (const child of getChildGroups(groupNameArg)) {
+            sendToOrigin(origin, `§7+ ${child} members=${getGroupMembersDeep(child).length}`);
+          }
           return;
         }
 
-        const groups = listGroups();
-        if (groups.length === 0) {
+        const tree = getGroupTree();
+        if (tree.length === 0) {
           sendToOrigin(origin, "§e[FMBE] no groups.");
           return;
         }
 
-        sendToOrigin(origin, `§b[FMBE] groups=${groups.length}`);
-        for (const groupName of groups) {
-          sendToOrigin(origin, `§7- ${groupName} members=${getGroupMembers(groupName).length}`);
+        sendToOrigin(origin, `§b[FMBE] groups=${tree.length}`);
+        for (const { groupName, depth } of tree) {
+          sendToOrigin(origin, `§7${"  ".repeat(depth)}- ${groupName} members=${getGroupMembers(groupName).length}`);
         }
       }
     );
@@ -345,6 +815,7 @@ export function registerCommands(): void {
         const nextGroup = validateGroupName(toGroup);
         if (!hasGroup(nextGroup)) throw new Error(`group not found: ${nextGroup}`);
 
+        const history = beginHistory(getJournalOwner(origin), "group_move");
         let moved = 0;
         let skipped = 0;
         for (const target of targets) {
@@ -355,10 +826,12 @@ export function registerCommands(): void {
             continue;
           }
 
+          history.capture(row.id);
           setRecordGroup(row.id, nextGroup);
           applyRecordToEntity(target, row);
           moved++;
         }
+        history.commit();
 
         sendToOrigin(origin, `§a[FMBE] group_move done moved=${moved} skipped=${skipped} to=${nextGroup}`);
       }
@@ -376,12 +849,26 @@ export function registerCommands(): void {
 
         const members = getGroupMembers(groupName);
         sendToOrigin(origin, `§b[FMBE] group=${groupName} members=${members.length}`);
+        const ancestors = getGroupAncestors(groupName);
+        if (ancestors.length > 0) sendToOrigin(origin, `§7parent=${ancestors.join(" < ")}`);
+        const children = getChildGroups(groupName);
+        if (children.length > 0) sendToOrigin(origin, `§7children=${children.join(", ")}`);
+        const meta = getGroupMeta(groupName) ?? {};
+        if (meta.streamRadius !== undefined) sendToOrigin(origin, `§7streamRadius=${meta.streamRadius}`);
+        if (meta.billboard) sendToOrigin(origin, `§7billboard=${formatBillboard(meta.billboard)}`);
+        if (meta.pivot) {
+          sendToOrigin(origin, `§7pivot=(${meta.pivot.x.toFixed(2)}, ${meta.pivot.y.toFixed(2)}, ${meta.pivot.z.toFixed(2)})`);
+        }
         for (const id of members) sendToOrigin(origin, `§7- ${id}`);
 
-        const first = members.map((id) => getRecordById(id)).find((value) => value !== undefined);
-        if (!first) return;
-        const view = readGroupScores(groupName, first).record;
-        sendToOrigin(origin, `§7preset=${presetToDisplay(view.preset)} loc=(${view.x.toFixed(2)}, ${view.y.toFixed(2)}, ${view.z.toFixed(2)})`);
+        const stored = meta.transform;
+        if (!stored) return;
+        const view = readGroupScores(groupName, stored).record;
+        sendToOrigin(
+          origin,
+          `§7preset=${presetToDisplay(view.preset)} origin=(${view.x.toFixed(2)}, ${view.y.toFixed(2)}, ${view.z.toFixed(2)}) ` +
+            `yRot=${(view.transform.yRot ?? 0).toFixed(2)} scale=${(view.transform.scale ?? 1).toFixed(2)}`
+        );
       }
     );
 
@@ -389,23 +876,24 @@ export function registerCommands(): void {
       registry,
       {
         ...commandBase("fmbe:group_set", "Assign entity to group"),
-        mandatoryParameters: [
-          { type: CustomCommandParamType.String, name: "group" },
-          { type: CustomCommandParamType.EntitySelector, name: "entity" },
-        ],
+        mandatoryParameters: [{ type: CustomCommandParamType.String, name: "group" }],
+        optionalParameters: [{ type: CustomCommandParamType.EntitySelector, name: "entity" }, ...AREA_PARAMETERS],
       },
-      (origin, group, entity) => {
+      (origin, group, entity, radius, from, to) => {
         const groupName = validateGroupName(group);
-        const targets = getManagedSelectedEntities(entity);
+        const rows = getLayoutRecords(origin, entity, undefined, radius, from, to);
 
         if (!hasGroup(groupName)) throw new Error(`group not found: ${groupName}`);
 
-        for (const target of targets) {
-          const row = getEntityRecordOrThrow(target);
+        const history = beginHistory(getJournalOwner(origin), "group_set");
+        for (const row of rows) {
+          history.capture(row.id);
           setRecordGroup(row.id, groupName);
-          applyRecordToEntity(target, row);
+          const target = findEntityByFmbeId(row.id);
+          if (target) applyRecordToEntity(target, row);
         }
-        sendToOrigin(origin, `§a[FMBE] group_set done group=${groupName} count=${targets.length}`);
+        history.commit();
+        sendToOrigin(origin, `§a[FMBE] group_set done group=${groupName} count=${rows.length}`);
       }
     );
 
@@ -417,6 +905,7 @@ export function registerCommands(): void {
       },
       (origin, entity) => {
         const targets = getManagedSelectedEntities(entity);
+        const history = beginHistory(getJournalOwner(origin), "group_clear");
         let cleared = 0;
         let skipped = 0;
         for (const target of targets) {
@@ -427,10 +916,12 @@ export function registerCommands(): void {
             continue;
           }
 
+          history.capture(row.id);
           clearRecordGroup(row.id);
           applyRecordToEntity(target, row);
           cleared++;
         }
+        history.commit();
         sendToOrigin(origin, `§a[FMBE] group_clear done cleared=${cleared} skipped=${skipped}`);
       }
     );
@@ -438,135 +929,693 @@ export function registerCommands(): void {
     registerManagedCommand(
       registry,
       {
-        ...commandBase("fmbe:set_preset", "Set preset"),
+        ...commandBase("fmbe:group_stream", "Set group streaming radius"),
         mandatoryParameters: [
-          { type: CustomCommandParamType.Enum, name: "preset", enumName: "fmbe:set_preset" },
-          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+          { type: CustomCommandParamType.String, name: "group" },
+          { type: CustomCommandParamType.Float, name: "radius" },
         ],
       },
-      (origin, preset, entity) => {
-        const nextPreset = presetFromAnyEnum(String(preset));
-        const targets = getManagedSelectedEntities(entity);
-        for (const target of targets) {
-          const row = getEntityRecordOrThrow(target);
-          const next: FmbeRecord = { ...row, preset: nextPreset, updatedAt: now() };
-          upsertRecord(next);
-          applyRecordToEntity(target, next);
+      (origin, group, radius) => {
+        const groupName = validateGroupName(group);
+        const meta = getGroupMeta(groupName);
+        if (!meta) throw new Error(`group not found: ${groupName}`);
+
+        const value = Number(radius);
+        if (!Number.isFinite(value)) throw new Error(`invalid radius: ${String(radius)}`);
+        if (value > 0) {
+          meta.streamRadius = value;
+        } else {
+          delete meta.streamRadius;
         }
-        sendToOrigin(origin, `§a[FMBE] set_preset done preset=${presetToDisplay(nextPreset)} count=${targets.length}`);
+        setGroupMeta(groupName, meta);
+        sendToOrigin(
+          origin,
+          `§a[FMBE] group_stream done group=${groupName} radius=${meta.streamRadius === undefined ? "off" : meta.streamRadius}`
+        );
       }
     );
 
     registerManagedCommand(
       registry,
       {
-        ...commandBase("fmbe:set_block", "Set block type"),
+        ...commandBase("fmbe:group_billboard", "Set group billboard mode"),
         mandatoryParameters: [
-          { type: CustomCommandParamType.BlockType, name: "block" },
-          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+          { type: CustomCommandParamType.String, name: "group" },
+          { type: CustomCommandParamType.Enum, name: "mode", enumName: "fmbe:billboard_mode" },
         ],
+        optionalParameters: [{ type: CustomCommandParamType.String, name: "player" }],
       },
-      (origin, block, entity) => {
-        const targets = getManagedSelectedEntities(entity);
-        const blockTypeId = (block as BlockType).id;
-        for (const target of targets) {
-          const row = getEntityRecordOrThrow(target);
-          const next: FmbeRecord = {
-            ...row,
-            blockTypeId,
-            itemTypeId: row.preset === "item" ? row.itemTypeId : null,
-            updatedAt: now(),
-          };
-          upsertRecord(next);
-          applyRecordToEntity(target, next);
+      (origin, group, mode, player) => {
+        const groupName = validateGroupName(group);
+        const meta = getGroupMeta(groupName);
+        if (!meta) throw new Error(`group not found: ${groupName}`);
+
+        const billboard = toBillboardOption(mode, player);
+        if (billboard) {
+          meta.billboard = billboard;
+        } else {
+          delete meta.billboard;
         }
-        sendToOrigin(origin, `§a[FMBE] set_block done block=${blockTypeId} count=${targets.length}`);
+        setGroupMeta(groupName, meta);
+        refreshGroupMembers(groupName);
+        sendToOrigin(origin, `§a[FMBE] group_billboard done group=${groupName} billboard=${formatBillboard(billboard)}`);
       }
     );
 
     registerManagedCommand(
       registry,
       {
-        ...commandBase("fmbe:set_item", "Set item type"),
+        ...commandBase("fmbe:group_pivot", "Set or reset group pivot"),
+        mandatoryParameters: [{ type: CustomCommandParamType.String, name: "group" }],
+        optionalParameters: [{ type: CustomCommandParamType.Location, name: "location" }],
+      },
+      (origin, group, location) => {
+        const groupName = validateGroupName(group);
+        const meta = getGroupMeta(groupName);
+        if (!meta) throw new Error(`group not found: ${groupName}`);
+
+        const pivot = location as Vector3 | undefined;
+        if (pivot) {
+          meta.pivot = { x: pivot.x, y: pivot.y, z: pivot.z };
+        } else {
+          delete meta.pivot;
+        }
+        setGroupMeta(groupName, meta);
+        sendToOrigin(
+          origin,
+          pivot
+            ? `§a[FMBE] group_pivot done group=${groupName} pivot=(${pivot.x.toFixed(2)}, ${pivot.y.toFixed(2)}, ${pivot.z.toFixed(2)})`
+            : `§a[FMBE] group_pivot done group=${groupName} pivot=centroid`
+        );
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:group_rotate", "Rotate group around its pivot"),
         mandatoryParameters: [
-          { type: CustomCommandParamType.ItemType, name: "item" },
-          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+          { type: CustomCommandParamType.String, name: "group" },
+          { type: CustomCommandParamType.Float, name: "degrees" },
         ],
       },
-      (origin, item, entity) => {
-        const targets = getManagedSelectedEntities(entity);
-        const itemTypeId = (item as ItemType).id;
-        for (const target of targets) {
-          const row = getEntityRecordOrThrow(target);
-          const next: FmbeRecord = {
-            ...row,
-            itemTypeId,
-            blockTypeId: row.preset === "item" ? null : row.blockTypeId,
-            updatedAt: now(),
-          };
-          upsertRecord(next);
-          applyRecordToEntity(target, next);
-        }
-        sendToOrigin(origin, `§a[FMBE] set_item done item=${itemTypeId} count=${targets.length}`);
+      (origin, group, degrees) => {
+        const groupName = validateGroupName(group);
+        if (!hasGroup(groupName)) throw new Error(`group not found: ${groupName}`);
+        const value = Number(degrees);
+        if (!Number.isFinite(value)) throw new Error(`invalid degrees: ${String(degrees)}`);
+
+        const history = beginHistory(getJournalOwner(origin), "group_rotate");
+        const count = rotateGroup(groupName, value, history);
+        history.commit();
+        sendToOrigin(origin, `§a[FMBE] group_rotate done group=${groupName} degrees=${value} count=${count}`);
       }
     );
 
     registerManagedCommand(
       registry,
       {
-        ...commandBase("fmbe:set_location", "Set FMBE location"),
+        ...commandBase("fmbe:group_op", "Apply relative operation to group"),
         mandatoryParameters: [
-          { type: CustomCommandParamType.Location, name: "location" },
-          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+          { type: CustomCommandParamType.String, name: "group" },
+          { type: CustomCommandParamType.Enum, name: "target", enumName: "fmbe:group_op_target" },
+          { type: CustomCommandParamType.Enum, name: "type", enumName: "fmbe:group_op_type" },
+          { type: CustomCommandParamType.Float, name: "value" },
         ],
+        optionalParameters: [{ type: CustomCommandParamType.Float, name: "alpha" }],
       },
-      (origin, location, entity) => {
-        const pos = location as Vector3;
-        const targets = getManagedSelectedEntities(entity);
-        for (const target of targets) {
-          const row = getEntityRecordOrThrow(target);
-          target.teleport(pos);
-          const next: FmbeRecord = {
-            ...row,
-            dimensionId: target.dimension.id,
-            x: pos.x,
-            y: pos.y,
-            z: pos.z,
-            updatedAt: now(),
-          };
-          upsertRecord(next);
+      (origin, group, target, type, value, alpha) => {
+        const groupName = validateGroupName(group);
+        if (!hasGroup(groupName)) throw new Error(`group not found: ${groupName}`);
+        const opTarget = String(target) as GroupOperationTarget;
+        const opType = String(type) as GroupOperationType;
+        if (!GROUP_OPERATION_TARGETS.includes(opTarget)) throw new Error(`invalid target: ${String(target)}`);
+        if (!GROUP_OPERATION_TYPES.includes(opType)) throw new Error(`invalid type: ${String(type)}`);
+        const opValue = Number(value);
+        if (!Number.isFinite(opValue)) throw new Error(`invalid value: ${String(value)}`);
+        if (opTarget === "rotate" && opType !== "add" && opType !== "sub") {
+          throw new Error("rotate supports add and sub only");
         }
-        sendToOrigin(origin, `§a[FMBE] set_location done count=${targets.length}`);
+
+        const opAlpha = alpha === undefined ? undefined : Number(alpha);
+        if (opAlpha !== undefined && !Number.isFinite(opAlpha)) throw new Error(`invalid alpha: ${String(alpha)}`);
+
+        const history = beginHistory(getJournalOwner(origin), "group_op");
+        const updated = applyGroupOperation(groupName, { target: opTarget, type: opType, value: opValue, alpha: opAlpha }, history);
+        history.commit();
+        sendToOrigin(origin, `§a[FMBE] group_op done group=${groupName} ${opTarget} ${opType} ${opValue} updated=${updated}`);
       }
     );
 
     registerManagedCommand(
       registry,
       {
-        ...commandBase("fmbe:clone", "Clone FMBE by entity"),
-        mandatoryParameters: [{ type: CustomCommandParamType.EntitySelector, name: "fromEntity" }],
-        optionalParameters: [
-          { type: CustomCommandParamType.EntitySelector, name: "toEntity" },
-          { type: CustomCommandParamType.Location, name: "location" },
+        ...commandBase("fmbe:group_set_parent", "Set parent group"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.String, name: "group" },
+          { type: CustomCommandParamType.String, name: "parent" },
         ],
       },
-      (origin, fromEntity, toEntity, location) => {
-        const fromTargets = getManagedSelectedEntities(fromEntity);
-
-        const toTargets = asEntityArray(toEntity).filter((entity) => isManagedEntity(entity));
-        const specifiedLoc = location as Vector3 | undefined;
+      (origin, group, parent) => {
+        const groupName = validateGroupName(group);
+        const parentName = validateGroupName(parent);
+        setGroupParent(groupName, parentName);
+        sendToOrigin(origin, `§a[FMBE] group_set_parent done group=${groupName} parent=${parentName}`);
+      }
+    );
 
-        if (toTargets.length > 0) {
-          if (fromTargets.length !== 1 && fromTargets.length !== toTargets.length) {
-            throw new Error("clone with multiple fromEntity requires equal toEntity count (or single fromEntity).");
-          }
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:group_clear_parent", "Clear parent group"),
+        mandatoryParameters: [{ type: CustomCommandParamType.String, name: "group" }],
+      },
+      (origin, group) => {
+        const groupName = validateGroupName(group);
+        const previous = getGroupParent(groupName);
+        setGroupParent(groupName, undefined);
+        sendToOrigin(origin, `§a[FMBE] group_clear_parent done group=${groupName} previous=${previous ?? "(none)"}`);
+      }
+    );
 
-          for (let index = 0; index < toTargets.length; index++) {
-            const target = toTargets[index]!;
-            const from = fromTargets.length === 1 ? fromTargets[0]! : fromTargets[index]!;
-            const fromRow = getEntityRecordOrThrow(from);
-            const toRow = getEntityRecordOrThrow(target);
-            const next: FmbeRecord = {
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:blueprint_save", "Save group as blueprint"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.String, name: "name" },
+          { type: CustomCommandParamType.String, name: "group" },
+        ],
+        optionalParameters: [{ type: CustomCommandParamType.Location, name: "origin" }],
+      },
+      (origin, name, group, originLocation) => {
+        const blueprintName = validateBlueprintName(name);
+        const groupName = validateGroupName(group);
+        if (!hasGroup(groupName)) throw new Error(`group not found: ${groupName}`);
+
+        const rows = getGroupMembers(groupName)
+          .map((id) => getRecordById(id))
+          .filter((row): row is FmbeRecord => row !== undefined);
+        if (rows.length === 0) throw new Error(`group has no members: ${groupName}`);
+
+        const centroid = getCentroid(rows);
+        const pivot = (originLocation as Vector3 | undefined) ?? {
+          x: Math.floor(centroid.x),
+          y: Math.floor(centroid.y),
+          z: Math.floor(centroid.z),
+        };
+        const replaced = saveBlueprint(captureBlueprint(blueprintName, groupName, rows, pivot));
+        sendToOrigin(
+          origin,
+          `§a[FMBE] blueprint ${replaced ? "updated" : "saved"}: ${blueprintName} members=${rows.length} ` +
+            `origin=(${pivot.x.toFixed(2)}, ${pivot.y.toFixed(2)}, ${pivot.z.toFixed(2)})`
+        );
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:blueprint_list", "List blueprints"),
+      },
+      (origin) => {
+        const blueprints = listBlueprints();
+        if (blueprints.length === 0) {
+          sendToOrigin(origin, "§e[FMBE] no blueprints.");
+          return;
+        }
+
+        sendToOrigin(origin, `§b[FMBE] blueprints=${blueprints.length}`);
+        for (const blueprint of blueprints) {
+          sendToOrigin(origin, `§7- ${blueprint.name} members=${blueprint.memberCount} from=${blueprint.sourceGroup}`);
+        }
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:blueprint_delete", "Delete blueprint"),
+        mandatoryParameters: [{ type: CustomCommandParamType.String, name: "name" }],
+      },
+      (origin, name) => {
+        const blueprintName = validateBlueprintName(name);
+        if (!deleteBlueprint(blueprintName)) throw new Error(`blueprint not found: ${blueprintName}`);
+        sendToOrigin(origin, `§a[FMBE] blueprint deleted: ${blueprintName}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:blueprint_paste", "Paste blueprint into a new group"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.String, name: "name" },
+          { type: CustomCommandParamType.String, name: "group" },
+          { type: CustomCommandParamType.Location, name: "location" },
+        ],
+        optionalParameters: [
+          { type: CustomCommandParamType.Integer, name: "rotation" },
+          { type: CustomCommandParamType.Enum, name: "mirror", enumName: "fmbe:axis" },
+        ],
+      },
+      (origin, name, group, location, rotation, mirror) => {
+        const blueprintName = validateBlueprintName(name);
+        const blueprint = getBlueprint(blueprintName);
+        if (!blueprint) throw new Error(`blueprint not found: ${blueprintName}`);
+        const groupName = validateGroupName(group);
+        if (hasGroup(groupName)) throw new Error(`group already exists: ${groupName}`);
+
+        const yaw = typeof rotation === "number" ? rotation : 0;
+        if (yaw % 90 !== 0) throw new Error(`rotation must be a multiple of 90: ${yaw}`);
+        const axis = (typeof mirror === "string" ? mirror : "none") as MirrorAxis;
+        const target = location as Vector3;
+        const dimensionId = getOriginDimensionId(origin);
+
+        const history = beginHistory(getJournalOwner(origin), "blueprint_paste");
+        history.captureGroup(groupName);
+        createGroup(groupName);
+        for (const member of blueprint.members) {
+          const placed = placeBlueprintMember(member, target, yaw, axis);
+          const record: FmbeRecord = {
+            id: generateRecordId(),
+            preset: member.preset,
+            blockTypeId: member.blockTypeId,
+            itemTypeId: member.itemTypeId,
+            dimensionId,
+            ...placed,
+            updatedAt: now(),
+          };
+          history.capture(record.id);
+          upsertRecord(record);
+          setRecordGroup(record.id, groupName);
+          spawnFromRecord(record);
+        }
+        history.commit();
+        sendToOrigin(
+          origin,
+          `§a[FMBE] blueprint_paste done blueprint=${blueprintName} group=${groupName} count=${blueprint.members.length}`
+        );
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:edit", "Open FMBE editor form"),
+        optionalParameters: [{ type: CustomCommandParamType.EntitySelector, name: "entity" }],
+      },
+      (origin, entity) => {
+        const player = getOriginPlayer(origin);
+        if (!player) throw new Error("edit requires a player.");
+
+        const selected = asEntityArray(entity).filter((value) => isManagedEntity(value));
+        if (entity !== undefined && selected.length !== 1) throw new Error("edit entity selector must match exactly one FMBE.");
+        const target = selected[0] ?? resolveTargetEntity(origin);
+        if (!target) throw new Error("no target. specify entity or hit an FMBE first.");
+
+        openRecordEditor(player, target);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:set_preset", "Set preset"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.Enum, name: "preset", enumName: "fmbe:set_preset" },
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+        ],
+      },
+      (origin, preset, entity) => {
+        const nextPreset = presetFromAnyEnum(String(preset));
+        const targets = getManagedSelectedEntities(entity);
+        const history = beginHistory(getJournalOwner(origin), "set_preset");
+        for (const target of targets) {
+          const row = getEntityRecordOrThrow(target);
+          const next: FmbeRecord = { ...row, preset: nextPreset, updatedAt: now() };
+          history.capture(row.id);
+          upsertRecord(next);
+          applyRecordToEntity(target, next);
+        }
+        history.commit();
+        sendToOrigin(origin, `§a[FMBE] set_preset done preset=${presetToDisplay(nextPreset)} count=${targets.length}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:set_block", "Set block type"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.BlockType, name: "block" },
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+        ],
+      },
+      (origin, block, entity) => {
+        const targets = getManagedSelectedEntities(entity);
+        const blockTypeId = (block as BlockType).id;
+        const history = beginHistory(getJournalOwner(origin), "set_block");
+        for (const target of targets) {
+          const row = getEntityRecordOrThrow(target);
+          const next: FmbeRecord = {
+            ...row,
+            blockTypeId,
+            itemTypeId: row.preset === "item" ? row.itemTypeId : null,
+            updatedAt: now(),
+          };
+          history.capture(row.id);
+          upsertRecord(next);
+          applyRecordToEntity(target, next);
+        }
+        history.commit();
+        sendToOrigin(origin, `§a[FMBE] set_block done block=${blockTypeId} count=${targets.length}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:set_item", "Set item type"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.ItemType, name: "item" },
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+        ],
+      },
+      (origin, item, entity) => {
+        const targets = getManagedSelectedEntities(entity);
+        const itemTypeId = (item as ItemType).id;
+        const history = beginHistory(getJournalOwner(origin), "set_item");
+        for (const target of targets) {
+          const row = getEntityRecordOrThrow(target);
+          const next: FmbeRecord = {
+            ...row,
+            itemTypeId,
+            blockTypeId: row.preset === "item" ? null : row.blockTypeId,
+            updatedAt: now(),
+          };
+          history.capture(row.id);
+          upsertRecord(next);
+          applyRecordToEntity(target, next);
+        }
+        history.commit();
+        sendToOrigin(origin, `§a[FMBE] set_item done item=${itemTypeId} count=${targets.length}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:set_location", "Set FMBE location"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.Location, name: "location" },
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+        ],
+      },
+      (origin, location, entity) => {
+        const pos = location as Vector3;
+        const targets = getManagedSelectedEntities(entity);
+        const history = beginHistory(getJournalOwner(origin), "set_location");
+        for (const target of targets) {
+          const row = getEntityRecordOrThrow(target);
+          history.capture(row.id);
+          target.teleport(pos);
+          const next: FmbeRecord = {
+            ...row,
+            dimensionId: target.dimension.id,
+            x: pos.x,
+            y: pos.y,
+            z: pos.z,
+            updatedAt: now(),
+          };
+          upsertRecord(next);
+        }
+        history.commit();
+        sendToOrigin(origin, `§a[FMBE] set_location done count=${targets.length}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:set_transform", "Set FMBE transform values"),
+        mandatoryParameters: [{ type: CustomCommandParamType.EntitySelector, name: "entity" }],
+        optionalParameters: TRANSFORM_KEYS.map((key) => ({ type: CustomCommandParamType.String, name: key })),
+      },
+      (origin, entity, ...values) => {
+        const targets = getManagedSelectedEntities(entity);
+        const inputs = TRANSFORM_KEYS.flatMap((key, index) => {
+          const value = values[index];
+          return typeof value === "string" && value.trim().length > 0 ? [{ key, value }] : [];
+        });
+        if (inputs.length === 0) throw new Error("specify at least one transform value.");
+
+        const history = beginHistory(getJournalOwner(origin), "set_transform");
+        for (const target of targets) {
+          const row = getEntityRecordOrThrow(target);
+          const transform = { ...row.transform };
+          for (const { key, value } of inputs) transform[key] = parseRelativeValue(value, getRecordField(row, key));
+          const next: FmbeRecord = { ...row, transform: normalizeTransform(transform), updatedAt: now() };
+          history.capture(row.id);
+          upsertRecord(next);
+          applyRecordToEntity(target, next);
+        }
+        history.commit();
+        sendToOrigin(
+          origin,
+          `§a[FMBE] set_transform done fields=${inputs.map((input) => input.key).join(",")} count=${targets.length}`
+        );
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:set_stream", "Set FMBE streaming radius"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.Float, name: "radius" },
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+        ],
+      },
+      (origin, radius, entity) => {
+        const value = Number(radius);
+        if (!Number.isFinite(value)) throw new Error(`invalid radius: ${String(radius)}`);
+        const targets = getManagedSelectedEntities(entity);
+        const history = beginHistory(getJournalOwner(origin), "set_stream");
+        for (const target of targets) {
+          const { streamRadius: _streamRadius, ...row } = getEntityRecordOrThrow(target);
+          const next: FmbeRecord = value < 0 ? { ...row, updatedAt: now() } : { ...row, streamRadius: value, updatedAt: now() };
+          history.capture(row.id);
+          upsertRecord(next);
+        }
+        history.commit();
+        sendToOrigin(origin, `§a[FMBE] set_stream done radius=${value < 0 ? "inherit" : value} count=${targets.length}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:motion_spin", "Spin a rotation field continuously"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.Enum, name: "field", enumName: "fmbe:motion_spin_field" },
+          { type: CustomCommandParamType.Float, name: "period" },
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+        ],
+        optionalParameters: [{ type: CustomCommandParamType.Float, name: "phase" }],
+      },
+      (origin, field, period, entity, phase) => {
+        const motion: RecordMotion = {
+          kind: "spin",
+          field: String(field) as keyof StoredTransform,
+          period: validatePeriod(period),
+          phase: Number(phase ?? 0),
+        };
+        const count = updateSelectedRecords(origin, "motion_spin", entity, (row) => withMotion(row, motion));
+        sendToOrigin(origin, `§a[FMBE] motion_spin done ${formatMotion(motion)} count=${count}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:motion_bob", "Bob an offset field along a sine wave"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.Enum, name: "field", enumName: "fmbe:motion_bob_field" },
+          { type: CustomCommandParamType.Float, name: "amplitude" },
+          { type: CustomCommandParamType.Float, name: "period" },
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+        ],
+        optionalParameters: [{ type: CustomCommandParamType.Float, name: "phase" }],
+      },
+      (origin, field, amplitude, period, entity, phase) => {
+        const motion: RecordMotion = {
+          kind: "bob",
+          field: String(field) as keyof StoredTransform,
+          amplitude: Number(amplitude),
+          period: validatePeriod(period),
+          phase: Number(phase ?? 0),
+        };
+        const count = updateSelectedRecords(origin, "motion_bob", entity, (row) => withMotion(row, motion));
+        sendToOrigin(origin, `§a[FMBE] motion_bob done ${formatMotion(motion)} count=${count}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:motion_orbit", "Orbit FMBE around a point"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.Float, name: "radius" },
+          { type: CustomCommandParamType.Float, name: "period" },
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+        ],
+        optionalParameters: [
+          { type: CustomCommandParamType.Float, name: "phase" },
+          { type: CustomCommandParamType.Location, name: "center" },
+        ],
+      },
+      (origin, radius, period, entity, phase, center) => {
+        const value = Number(radius);
+        if (!Number.isFinite(value) || value < 0) throw new Error(`invalid radius: ${String(radius)}`);
+        const orbitPeriod = validatePeriod(period);
+        const centerPos = center as Vector3 | undefined;
+        const count = updateSelectedRecords(origin, "motion_orbit", entity, (row) =>
+          withMotion(row, {
+            kind: "orbit",
+            radius: value,
+            period: orbitPeriod,
+            phase: Number(phase ?? 0),
+            center: centerPos
+              ? { x: centerPos.x - row.x, y: centerPos.y - row.y, z: centerPos.z - row.z }
+              : { x: 0, y: 0, z: 0 },
+          })
+        );
+        sendToOrigin(origin, `§a[FMBE] motion_orbit done radius=${value} period=${orbitPeriod} count=${count}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:motion_clear", "Stop procedural motion"),
+        mandatoryParameters: [{ type: CustomCommandParamType.EntitySelector, name: "entity" }],
+        optionalParameters: [{ type: CustomCommandParamType.Enum, name: "kind", enumName: "fmbe:motion_kind" }],
+      },
+      (origin, entity, kind) => {
+        const motionKind = typeof kind === "string" ? (kind as MotionKind) : undefined;
+        const count = updateSelectedRecords(origin, "motion_clear", entity, (row) => withoutMotion(row, motionKind));
+        sendToOrigin(origin, `§a[FMBE] motion_clear done kind=${motionKind ?? "all"} count=${count}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:motion_list", "List procedural motion"),
+        mandatoryParameters: [{ type: CustomCommandParamType.EntitySelector, name: "entity" }],
+      },
+      (origin, entity) => {
+        for (const target of getManagedSelectedEntities(entity)) {
+          const row = getEntityRecordOrThrow(target);
+          const motions = row.motion ?? [];
+          sendToOrigin(origin, `§b[FMBE] ${row.id} motions=${motions.length}`);
+          for (const motion of motions) sendToOrigin(origin, `§7- ${formatMotion(motion)}`);
+        }
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:billboard", "Set FMBE billboard mode"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.Enum, name: "mode", enumName: "fmbe:billboard_mode" },
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+        ],
+        optionalParameters: [{ type: CustomCommandParamType.String, name: "player" }],
+      },
+      (origin, mode, entity, player) => {
+        const billboard = toBillboardOption(mode, player);
+        const count = updateSelectedRecords(origin, "billboard", entity, ({ billboard: _billboard, ...row }) =>
+          billboard ? { ...row, billboard } : row
+        );
+        sendToOrigin(origin, `§a[FMBE] billboard done billboard=${formatBillboard(billboard)} count=${count}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:attach", "Attach FMBE to an entity"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+          { type: CustomCommandParamType.EntitySelector, name: "target" },
+        ],
+        optionalParameters: [
+          { type: CustomCommandParamType.Location, name: "offset" },
+          { type: CustomCommandParamType.Boolean, name: "inheritYaw" },
+        ],
+      },
+      (origin, entity, target, offset, inheritYaw) => {
+        const targets = asEntityArray(target);
+        if (targets.length !== 1) throw new Error("attach target selector must match exactly one entity.");
+        const targetEntity = targets[0]!;
+        if (getManagedSelectedEntities(entity).some((fmbe) => fmbe.id === targetEntity.id)) {
+          throw new Error("cannot attach FMBE to itself.");
+        }
+        const offsetPos = (offset as Vector3 | undefined) ?? { x: 0, y: 0, z: 0 };
+        const attachment = {
+          targetId: targetEntity.id,
+          offset: { x: offsetPos.x, y: offsetPos.y, z: offsetPos.z },
+          inheritYaw: inheritYaw === true,
+        };
+
+        const count = updateSelectedRecords(origin, "attach", entity, (row) => ({ ...row, attachment }));
+        sendToOrigin(origin, `§a[FMBE] attach done ${formatAttachment(attachment)} count=${count}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:detach", "Detach FMBE and restore its stored location"),
+        mandatoryParameters: [{ type: CustomCommandParamType.EntitySelector, name: "entity" }],
+      },
+      (origin, entity) => {
+        const count = updateSelectedRecords(origin, "detach", entity, ({ attachment: _attachment, ...row }) => row);
+        sendToOrigin(origin, `§a[FMBE] detach done count=${count}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:clone", "Clone FMBE by entity"),
+        mandatoryParameters: [{ type: CustomCommandParamType.EntitySelector, name: "fromEntity" }],
+        optionalParameters: [
+          { type: CustomCommandParamType.EntitySelector, name: "toEntity" },
+          { type: CustomCommandParamType.Location, name: "location" },
+        ],
+      },
+      (origin, fromEntity, toEntity, location) => {
+        const fromTargets = getManagedSelectedEntities(fromEntity);
+
+        const toTargets = asEntityArray(toEntity).filter((entity) => isManagedEntity(entity));
+        const specifiedLoc = location as Vector3 | undefined;
+        const history = beginHistory(getJournalOwner(origin), "clone");
+
+        if (toTargets.length > 0) {
+          if (fromTargets.length !== 1 && fromTargets.length !== toTargets.length) {
+            throw new Error("clone with multiple fromEntity requires equal toEntity count (or single fromEntity).");
+          }
+
+          for (let index = 0; index < toTargets.length; index++) {
+            const target = toTargets[index]!;
+            const from = fromTargets.length === 1 ? fromTargets[0]! : fromTargets[index]!;
+            const fromRow = getEntityRecordOrThrow(from);
+            const toRow = getEntityRecordOrThrow(target);
+            const next: FmbeRecord = {
               ...fromRow,
               id: toRow.id,
               dimensionId: specifiedLoc ? target.dimension.id : toRow.dimensionId,
@@ -575,10 +1624,12 @@ export function registerCommands(): void {
               z: specifiedLoc ? specifiedLoc.z : toRow.z,
               updatedAt: now(),
             };
+            history.capture(next.id);
             if (specifiedLoc) target.teleport(specifiedLoc);
             upsertRecord(next);
             applyRecordToEntity(target, next);
           }
+          history.commit();
           sendToOrigin(origin, `§a[FMBE] clone applied to existing entities count=${toTargets.length}`);
           return;
         }
@@ -600,13 +1651,192 @@ export function registerCommands(): void {
             cloneBase.z = specifiedLoc.z;
           }
 
+          history.capture(cloneId);
           upsertRecord(cloneBase);
           spawnFromRecord(cloneBase);
         }
+        history.commit();
         sendToOrigin(origin, `§a[FMBE] clone created new entities count=${fromTargets.length}`);
       }
     );
 
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:mirror", "Mirror FMBE across a plane"),
+        mandatoryParameters: [{ type: CustomCommandParamType.Enum, name: "axis", enumName: "fmbe:axis" }],
+        optionalParameters: [
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+          { type: CustomCommandParamType.String, name: "group" },
+          { type: CustomCommandParamType.Location, name: "point" },
+          ...AREA_PARAMETERS,
+        ],
+      },
+      (origin, axis, entity, group, point, radius, from, to) => {
+        const layoutAxis = String(axis) as Axis;
+        const records = getLayoutRecords(origin, entity, group, radius, from, to);
+        const plane = (point as Vector3 | undefined) ?? getCentroid(records);
+        const count = applyLayout(origin, "mirror", records, (rows) => mirrorRecords(rows, layoutAxis, plane[layoutAxis]));
+        sendToOrigin(origin, `§a[FMBE] mirror done axis=${layoutAxis} plane=${plane[layoutAxis].toFixed(2)} count=${count}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:snap_location", "Snap FMBE locations to a grid"),
+        mandatoryParameters: [{ type: CustomCommandParamType.Float, name: "size" }],
+        optionalParameters: [
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+          { type: CustomCommandParamType.String, name: "group" },
+          ...AREA_PARAMETERS,
+        ],
+      },
+      (origin, size, entity, group, radius, from, to) => {
+        const value = Number(size);
+        if (!Number.isFinite(value) || value <= 0) throw new Error(`invalid size: ${String(size)}`);
+        const records = getLayoutRecords(origin, entity, group, radius, from, to);
+        const count = applyLayout(origin, "snap_location", records, (rows) => snapRecordLocations(rows, value));
+        sendToOrigin(origin, `§a[FMBE] snap_location done size=${value} count=${count}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:snap_rotation", "Snap FMBE rotations to increments"),
+        mandatoryParameters: [{ type: CustomCommandParamType.Float, name: "increment" }],
+        optionalParameters: [
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+          { type: CustomCommandParamType.String, name: "group" },
+          ...AREA_PARAMETERS,
+        ],
+      },
+      (origin, increment, entity, group, radius, from, to) => {
+        const value = Number(increment);
+        if (!Number.isFinite(value) || value <= 0 || value > 360) throw new Error(`invalid increment: ${String(increment)}`);
+        const records = getLayoutRecords(origin, entity, group, radius, from, to);
+        const count = applyLayout(origin, "snap_rotation", records, (rows) => snapRecordRotations(rows, value));
+        sendToOrigin(origin, `§a[FMBE] snap_rotation done increment=${value} count=${count}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:align", "Align FMBE along an axis"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.Enum, name: "axis", enumName: "fmbe:axis" },
+          { type: CustomCommandParamType.Enum, name: "mode", enumName: "fmbe:align_mode" },
+        ],
+        optionalParameters: [
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+          { type: CustomCommandParamType.String, name: "group" },
+          ...AREA_PARAMETERS,
+        ],
+      },
+      (origin, axis, mode, entity, group, radius, from, to) => {
+        const layoutAxis = String(axis) as Axis;
+        const alignMode = String(mode) as AlignMode;
+        const records = getLayoutRecords(origin, entity, group, radius, from, to);
+        const count = applyLayout(origin, "align", records, (rows) => alignRecords(rows, layoutAxis, alignMode));
+        sendToOrigin(origin, `§a[FMBE] align done axis=${layoutAxis} mode=${alignMode} count=${count}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:distribute", "Distribute FMBE evenly along an axis"),
+        mandatoryParameters: [{ type: CustomCommandParamType.Enum, name: "axis", enumName: "fmbe:axis" }],
+        optionalParameters: [
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+          { type: CustomCommandParamType.String, name: "group" },
+          ...AREA_PARAMETERS,
+        ],
+      },
+      (origin, axis, entity, group, radius, from, to) => {
+        const layoutAxis = String(axis) as Axis;
+        const records = getLayoutRecords(origin, entity, group, radius, from, to);
+        if (records.length < 3) throw new Error("distribute requires at least 3 FMBE.");
+        const count = applyLayout(origin, "distribute", records, (rows) => distributeRecords(rows, layoutAxis));
+        sendToOrigin(origin, `§a[FMBE] distribute done axis=${layoutAxis} count=${count}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:array", "Duplicate FMBE in a linear, grid or radial pattern"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+          { type: CustomCommandParamType.Enum, name: "pattern", enumName: "fmbe:array_pattern" },
+          { type: CustomCommandParamType.Integer, name: "count" },
+        ],
+        optionalParameters: [
+          { type: CustomCommandParamType.Location, name: "spacing" },
+          { type: CustomCommandParamType.Float, name: "rotationStep" },
+          { type: CustomCommandParamType.String, name: "group" },
+          { type: CustomCommandParamType.Integer, name: "rows" },
+          { type: CustomCommandParamType.Integer, name: "layers" },
+          { type: CustomCommandParamType.Location, name: "center" },
+        ],
+      },
+      (origin, entity, pattern, count, spacing, rotationStep, group, rows, layers, center) => {
+        const sources = getManagedSelectedEntities(entity);
+        const arrayPattern = String(pattern) as ArrayPattern;
+        const columns = Number(count);
+        const rowCount = arrayPattern === "grid" ? Number(rows ?? 1) : 1;
+        const layerCount = arrayPattern === "grid" ? Number(layers ?? 1) : 1;
+        if (![columns, rowCount, layerCount].every((value) => Number.isInteger(value) && value >= 1)) {
+          throw new Error("count, rows and layers must be at least 1.");
+        }
+        const groupName = typeof group === "string" && group.trim().length > 0 ? validateGroupName(group) : undefined;
+        const centerPos = center as Vector3 | undefined;
+        const defaultSpacing = arrayPattern === "grid" ? { x: 1, y: 1, z: 1 } : { x: 1, y: 0, z: 0 };
+        const copies = getArrayCopyCount({ pattern: arrayPattern, count: columns, rows: rowCount, layers: layerCount });
+        validateArrayCopies(sources.length * copies);
+        const sourceRecords = sources.map((source) => getEntityRecordOrThrow(source));
+
+        const history = beginHistory(getJournalOwner(origin), "array");
+        if (groupName) {
+          history.captureGroup(groupName);
+          createGroup(groupName);
+        }
+        let created = 0;
+        for (const { attachment: _attachment, ...row } of sourceRecords) {
+          const placements = getArrayPlacements({
+            pattern: arrayPattern,
+            count: columns,
+            rows: rowCount,
+            layers: layerCount,
+            spacing: (spacing as Vector3 | undefined) ?? defaultSpacing,
+            rotationStep: Number(rotationStep ?? 0),
+            center: centerPos && { x: centerPos.x - row.x, y: centerPos.y - row.y, z: centerPos.z - row.z },
+          });
+
+          for (const placement of placements) {
+            const moved: FmbeRecord = {
+              ...row,
+              id: generateRecordId(),
+              x: row.x + placement.offset.x,
+              y: row.y + placement.offset.y,
+              z: row.z + placement.offset.z,
+              updatedAt: now(),
+            };
+            const record = setRecordField(moved, "yRot", getRecordField(row, "yRot") + placement.yaw);
+            history.capture(record.id);
+            upsertRecord(record);
+            if (groupName) setRecordGroup(record.id, groupName);
+            spawnFromRecord(record);
+            created++;
+          }
+        }
+        history.commit();
+        sendToOrigin(origin, `§a[FMBE] array done pattern=${arrayPattern} group=${groupName ?? "-"} count=${created}`);
+      }
+    );
+
     registerManagedCommand(
       registry,
       {
@@ -615,12 +1845,15 @@ export function registerCommands(): void {
       },
       (origin, entity) => {
         const targets = getManagedSelectedEntities(entity);
+        const history = beginHistory(getJournalOwner(origin), "remove");
         for (const target of targets) {
           const row = getEntityRecordOrThrow(target);
+          history.capture(row.id);
           removeRecordFromGroups(row.id);
           removeRecordById(row.id);
           removeManagedEntity(target);
         }
+        history.commit();
         sendToOrigin(origin, `§a[FMBE] remove done count=${targets.length}`);
       }
     );
@@ -677,11 +1910,13 @@ export function registerCommands(): void {
         }
 
         if (mode === "cleanup") {
+          const history = beginHistory(getJournalOwner(origin), "data_cleanup");
           let removedDb = 0;
           let removedEntity = 0;
 
-          for (const [fmbeId] of dbMap) {
-            if (!entityMap.has(fmbeId)) {
+          for (const [fmbeId, row] of dbMap) {
+            if (!entityMap.has(fmbeId) && !isStreamed(row)) {
+              history.capture(fmbeId);
               removeRecordFromGroups(fmbeId);
               removeRecordById(fmbeId);
               removedDb++;
@@ -695,16 +1930,18 @@ export function registerCommands(): void {
             }
           }
 
+          history.commit();
           sendToOrigin(origin, `§a[FMBE] cleanup done dbRemoved=${removedDb} entityRemoved=${removedEntity}`);
           return;
         }
 
         if (mode === "fix") {
+          const history = beginHistory(getJournalOwner(origin), "data_fix");
           let spawned = 0;
           let imported = 0;
 
           for (const [fmbeId, row] of dbMap) {
-            if (!entityMap.has(fmbeId)) {
+            if (!entityMap.has(fmbeId) && !isStreamed(row)) {
               spawnFromRecord(row);
               spawned++;
             }
@@ -714,10 +1951,12 @@ export function registerCommands(): void {
             if (dbMap.has(fmbeId)) continue;
             const row = toEntityRecord(ent);
             if (!row) continue;
+            history.capture(row.id);
             upsertRecord(row);
             imported++;
           }
 
+          history.commit();
           sendToOrigin(origin, `§a[FMBE] fix done spawned=${spawned} imported=${imported}`);
           return;
         }
@@ -725,9 +1964,14 @@ export function registerCommands(): void {
         let spawned = 0;
         let updated = 0;
         let removed = 0;
+        let streamed = 0;
 
         for (const [fmbeId, row] of dbMap) {
           const ent = entityMap.get(fmbeId);
+          if (!ent && isStreamed(row)) {
+            streamed++;
+            continue;
+          }
           if (!ent) {
             spawnFromRecord(row);
             spawned++;
@@ -749,7 +1993,372 @@ export function registerCommands(): void {
           }
         }
 
-        sendToOrigin(origin, `§a[FMBE] validate done spawned=${spawned} updated=${updated} removed=${removed}`);
+        sendToOrigin(origin, `§a[FMBE] validate done spawned=${spawned} updated=${updated} removed=${removed} streamed=${streamed}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:anim_create", "Create animation timeline"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.String, name: "name" },
+          { type: CustomCommandParamType.Enum, name: "mode", enumName: "fmbe:anim_mode" },
+        ],
+        optionalParameters: [
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+          { type: CustomCommandParamType.String, name: "group" },
+        ],
+      },
+      (origin, name, mode, entity, group) => {
+        const animationName = validateAnimationName(name);
+        if (getTimeline(animationName)) throw new Error(`animation already exists: ${animationName}`);
+
+        let targetKind: AnimationTimeline["targetKind"];
+        let targetId: string;
+        if (typeof group === "string" && group.trim().length > 0) {
+          if (entity !== undefined) throw new Error("specify either entity or group, not both.");
+          targetKind = "group";
+          targetId = validateGroupName(group);
+          if (!hasGroup(targetId)) throw new Error(`group not found: ${targetId}`);
+        } else {
+          const targets = getManagedSelectedEntities(entity);
+          if (targets.length !== 1) throw new Error("animation entity selector must match exactly one FMBE.");
+          targetKind = "record";
+          targetId = getEntityRecordOrThrow(targets[0]!).id;
+        }
+
+        createTimeline({
+          name: animationName,
+          targetKind,
+          targetId,
+          mode: String(mode) as AnimationMode,
+          state: "stopped",
+          cursor: 0,
+          direction: 1,
+          keyframes: [],
+        });
+        sendToOrigin(origin, `§a[FMBE] animation created: ${animationName} target=${targetKind}:${targetId}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:anim_key", "Set animation keyframe"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.String, name: "name" },
+          { type: CustomCommandParamType.Enum, name: "field", enumName: "fmbe:anim_field" },
+          { type: CustomCommandParamType.Integer, name: "tick" },
+          { type: CustomCommandParamType.Float, name: "value" },
+        ],
+        optionalParameters: [{ type: CustomCommandParamType.Enum, name: "easing", enumName: "fmbe:anim_easing" }],
+      },
+      (origin, name, field, tick, value, easing) => {
+        const animationName = validateAnimationName(name);
+        const keyTick = Number(tick);
+        if (!Number.isInteger(keyTick) || keyTick < 0) throw new Error("tick must be a non-negative integer.");
+
+        const keyframe = {
+          tick: keyTick,
+          field: String(field) as RecordField,
+          value: Number(value),
+          easing: (typeof easing === "string" ? easing : "linear") as AnimationEasing,
+        };
+        if (!setKeyframe(animationName, keyframe)) throw new Error(`animation not found: ${animationName}`);
+        sendToOrigin(
+          origin,
+          `§a[FMBE] keyframe set: ${animationName} ${keyframe.field}@${keyframe.tick}=${keyframe.value} (${keyframe.easing})`
+        );
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:anim_play", "Play animation"),
+        mandatoryParameters: [{ type: CustomCommandParamType.String, name: "name" }],
+      },
+      (origin, name) => {
+        const timeline = getTimelineOrThrow(validateAnimationName(name));
+        if (timeline.keyframes.length === 0) throw new Error(`animation has no keyframes: ${timeline.name}`);
+        const restart = timeline.state === "stopped" && timeline.cursor >= getTimelineDuration(timeline);
+        const next = setTimelineState(timeline.name, "playing", restart ? 0 : undefined)!;
+        sendToOrigin(origin, `§a[FMBE] animation playing: ${formatTimeline(next)}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:anim_pause", "Pause animation"),
+        mandatoryParameters: [{ type: CustomCommandParamType.String, name: "name" }],
+      },
+      (origin, name) => {
+        const timeline = getTimelineOrThrow(validateAnimationName(name));
+        const next = setTimelineState(timeline.name, "paused")!;
+        sendToOrigin(origin, `§a[FMBE] animation paused: ${formatTimeline(next)}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:anim_seek", "Seek animation"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.String, name: "name" },
+          { type: CustomCommandParamType.Integer, name: "tick" },
+        ],
+      },
+      (origin, name, tick) => {
+        const timeline = getTimelineOrThrow(validateAnimationName(name));
+        const state = timeline.state === "playing" ? "playing" : "paused";
+        const next = setTimelineState(timeline.name, state, Number(tick))!;
+        const history = beginHistory(getJournalOwner(origin), "anim_seek");
+        const applied = applyTimelineFrame(next, sampleTimeline(next, next.cursor), history);
+        history.commit();
+        sendToOrigin(origin, `§a[FMBE] animation seek: ${formatTimeline(next)} updated=${applied}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:anim_stop", "Stop animation and rewind"),
+        mandatoryParameters: [{ type: CustomCommandParamType.String, name: "name" }],
+      },
+      (origin, name) => {
+        const timeline = getTimelineOrThrow(validateAnimationName(name));
+        const next = setTimelineState(timeline.name, "stopped", 0)!;
+        const history = beginHistory(getJournalOwner(origin), "anim_stop");
+        const applied = applyTimelineFrame(next, sampleTimeline(next, 0), history);
+        history.commit();
+        sendToOrigin(origin, `§a[FMBE] animation stopped: ${formatTimeline(next)} updated=${applied}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:anim_delete", "Delete animation"),
+        mandatoryParameters: [{ type: CustomCommandParamType.String, name: "name" }],
+      },
+      (origin, name) => {
+        const animationName = validateAnimationName(name);
+        if (!deleteTimeline(animationName)) throw new Error(`animation not found: ${animationName}`);
+        sendToOrigin(origin, `§a[FMBE] animation deleted: ${animationName}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:anim_list", "List animations"),
+        optionalParameters: [{ type: CustomCommandParamType.String, name: "name" }],
+      },
+      (origin, name) => {
+        const nameArg = typeof name === "string" ? name.trim() : "";
+        if (nameArg.length > 0) {
+          const timeline = getTimelineOrThrow(nameArg);
+          sendToOrigin(origin, `§b[FMBE] ${formatTimeline(timeline)}`);
+          for (const keyframe of timeline.keyframes) {
+            sendToOrigin(origin, `§7- ${keyframe.field}@${keyframe.tick}=${keyframe.value} (${keyframe.easing})`);
+          }
+          return;
+        }
+
+        const timelines = listTimelines();
+        if (timelines.length === 0) {
+          sendToOrigin(origin, "§e[FMBE] no animations.");
+          return;
+        }
+
+        sendToOrigin(origin, `§b[FMBE] animations=${timelines.length}`);
+        for (const timeline of timelines) sendToOrigin(origin, `§7- ${formatTimeline(timeline)}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:bind_add", "Bind field to scoreboard expression"),
+        mandatoryParameters: [
+          { type: CustomCommandParamType.String, name: "name" },
+          { type: CustomCommandParamType.Enum, name: "field", enumName: "fmbe:anim_field" },
+          { type: CustomCommandParamType.String, name: "expression" },
+        ],
+        optionalParameters: [
+          { type: CustomCommandParamType.EntitySelector, name: "entity" },
+          { type: CustomCommandParamType.String, name: "group" },
+        ],
+      },
+      (origin, name, field, expression, entity, group) => {
+        const bindingName = validateBindingName(name);
+
+        let targetKind: FmbeBinding["targetKind"];
+        let targetId: string;
+        if (typeof group === "string" && group.trim().length > 0) {
+          if (entity !== undefined) throw new Error("specify either entity or group, not both.");
+          targetKind = "group";
+          targetId = validateGroupName(group);
+          if (!hasGroup(targetId)) throw new Error(`group not found: ${targetId}`);
+        } else {
+          const targets = getManagedSelectedEntities(entity);
+          if (targets.length !== 1) throw new Error("binding entity selector must match exactly one FMBE.");
+          targetKind = "record";
+          targetId = getEntityRecordOrThrow(targets[0]!).id;
+        }
+
+        const binding: FmbeBinding = {
+          name: bindingName,
+          targetKind,
+          targetId,
+          field: String(field) as RecordField,
+          expression: String(expression ?? "").trim(),
+          updatedAt: now(),
+        };
+        const existed = saveBinding(binding);
+        sendToOrigin(origin, `§a[FMBE] binding ${existed ? "updated" : "added"}: ${formatBinding(binding)}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:bind_list", "List bindings"),
+      },
+      (origin) => {
+        const bindings = listBindings();
+        if (bindings.length === 0) {
+          sendToOrigin(origin, "§e[FMBE] no bindings.");
+          return;
+        }
+
+        sendToOrigin(origin, `§b[FMBE] bindings=${bindings.length}`);
+        for (const binding of bindings) sendToOrigin(origin, `§7- ${formatBinding(binding)}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:bind_remove", "Remove binding"),
+        mandatoryParameters: [{ type: CustomCommandParamType.String, name: "name" }],
+      },
+      (origin, name) => {
+        const bindingName = validateBindingName(name);
+        if (!deleteBinding(bindingName)) throw new Error(`binding not found: ${bindingName}`);
+        sendToOrigin(origin, `§a[FMBE] binding removed: ${bindingName}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:undo", "Undo FMBE changes"),
+        optionalParameters: [
+          { type: CustomCommandParamType.Integer, name: "count" },
+          { type: CustomCommandParamType.Enum, name: "journal", enumName: "fmbe:history_journal" },
+        ],
+      },
+      (origin, count, journal) => {
+        const owner = journal === SHARED_JOURNAL ? SHARED_JOURNAL : getJournalOwner(origin);
+        const labels = undoHistory(owner, Math.max(1, Number(count ?? 1)));
+        if (labels.length === 0) {
+          sendToOrigin(origin, "§e[FMBE] nothing to undo.");
+          return;
+        }
+        const size = getHistorySize(owner);
+        sendToOrigin(origin, `§a[FMBE] undo done ${labels.join(", ")} (undo=${size.undo} redo=${size.redo})`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:redo", "Redo FMBE changes"),
+        optionalParameters: [
+          { type: CustomCommandParamType.Integer, name: "count" },
+          { type: CustomCommandParamType.Enum, name: "journal", enumName: "fmbe:history_journal" },
+        ],
+      },
+      (origin, count, journal) => {
+        const owner = journal === SHARED_JOURNAL ? SHARED_JOURNAL : getJournalOwner(origin);
+        const labels = redoHistory(owner, Math.max(1, Number(count ?? 1)));
+        if (labels.length === 0) {
+          sendToOrigin(origin, "§e[FMBE] nothing to redo.");
+          return;
+        }
+        const size = getHistorySize(owner);
+        sendToOrigin(origin, `§a[FMBE] redo done ${labels.join(", ")} (undo=${size.undo} redo=${size.redo})`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:settings", "Show or change settings"),
+        optionalParameters: [
+          { type: CustomCommandParamType.Enum, name: "key", enumName: "fmbe:setting_key" },
+          { type: CustomCommandParamType.Float, name: "value" },
+        ],
+      },
+      (origin, key, value) => {
+        if (typeof key !== "string") {
+          const current = getSettings();
+          sendToOrigin(origin, "§b[FMBE] settings");
+          for (const settingKey of SETTING_KEYS) sendToOrigin(origin, `§7- ${settingKey}=${current[settingKey]}`);
+          return;
+        }
+
+        if (!isSettingKey(key)) throw new Error(`unknown setting: ${key}`);
+        if (value === undefined) {
+          sendToOrigin(origin, `§b[FMBE] ${key}=${getSettings()[key]}`);
+          return;
+        }
+        const applied = setSetting(key, Number(value));
+        sendToOrigin(origin, `§a[FMBE] setting updated ${key}=${applied}`);
+      }
+    );
+
+    registerManagedCommand(
+      registry,
+      {
+        ...commandBase("fmbe:schema", "Show schema versions or roll back a migration"),
+        mandatoryParameters: [{ type: CustomCommandParamType.Enum, name: "action", enumName: "fmbe:schema_action" }],
+        optionalParameters: [{ type: CustomCommandParamType.Enum, name: "key", enumName: "fmbe:schema_key" }],
+      },
+      (origin, action, key) => {
+        const keys = typeof key === "string" ? [key as SchemaKey] : [...SCHEMA_KEYS];
+
+        if (action === "rollback") {
+          if (typeof key !== "string") throw new Error("rollback requires key.");
+          const meta = rollbackSchema(key as SchemaKey);
+          sendToOrigin(
+            origin,
+            `§a[FMBE] rollback done ${key} v${meta.toVersion} -> v${meta.fromVersion}. reload the world to finish.`
+          );
+          return;
+        }
+
+        if (action === "unpin") {
+          if (typeof key !== "string") throw new Error("unpin requires key.");
+          const pinned = unpinSchema(key as SchemaKey);
+          sendToOrigin(origin, `§a[FMBE] unpin done ${key} v${pinned}. migrations resume on the next world load.`);
+          return;
+        }
+
+        sendToOrigin(origin, "§b[FMBE] schema");
+        for (const schemaKey of keys) {
+          const backup = getBackupInfo(schemaKey);
+          const backupText = backup ? ` backup=v${backup.fromVersion}->v${backup.toVersion}` : "";
+          const pin = getSchemaPin(schemaKey);
+          const pinText = pin !== undefined ? ` pinned=v${pin}` : "";
+          sendToOrigin(
+            origin,
+            `§7- ${schemaKey} v${getSchemaVersion(schemaKey)}/${getLatestVersion(schemaKey)}${backupText}${pinText}`
+          );
+        }
       }
     );
   });
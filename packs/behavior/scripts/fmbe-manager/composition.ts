@@ -0,0 +1,141 @@
+import { getRecordField, normalizeTransform, TRANSFORM_KEYS } from "./helpers.ts";
+import { getCentroid, rotateYaw } from "./geometry.ts";
+import {
+  type FmbeRecord,
+  type GroupMemberLocal,
+  type GroupMeta,
+  type GroupPivot,
+  type GroupTransform,
+  type MemberLocal,
+  type StoredTransform,
+} from "./types.ts";
+
+const MULTIPLICATIVE_KEYS = new Set<keyof StoredTransform>(["scale", "extendScale"]);
+const COMPOSED_EPSILON = 1e-6;
+
+export const GROUP_IDENTITY_TRANSFORM: Required<StoredTransform> = {
+  xOffset: 0,
+  yOffset: 0,
+  zOffset: 0,
+  xRot: 0,
+  yRot: 0,
+  zRot: 0,
+  scale: 1,
+  extendScale: 1,
+  extendXrot: 0,
+  extendYrot: 0,
+  extendZrot: 0,
+  xBasePos: 0,
+  yBasePos: 0,
+  zBasePos: 0,
+};
+
+function groupValue(group: GroupTransform, key: keyof StoredTransform): number {
+  return group.transform[key] ?? GROUP_IDENTITY_TRANSFORM[key];
+}
+
+function groupScale(group: GroupTransform): number {
+  const scale = groupValue(group, "scale");
+  return scale === 0 ? 1 : scale;
+}
+
+export function createGroupTransform(members: FmbeRecord[]): GroupTransform {
+  const centroid = getCentroid(members);
+  return {
+    preset: members[0]?.preset ?? "item",
+    x: centroid.x,
+    y: centroid.y,
+    z: centroid.z,
+    transform: { ...GROUP_IDENTITY_TRANSFORM },
+  };
+}
+
+function toLocalPoint(group: GroupTransform, point: GroupPivot): GroupPivot {
+  const scale = groupScale(group);
+  const offset = rotateYaw({ x: point.x - group.x, y: point.y - group.y, z: point.z - group.z }, -groupValue(group, "yRot"));
+  return { x: offset.x / scale, y: offset.y / scale, z: offset.z / scale };
+}
+
+function toWorldPoint(group: GroupTransform, point: GroupPivot): GroupPivot {
+  const scale = groupScale(group);
+  const offset = rotateYaw({ x: point.x * scale, y: point.y * scale, z: point.z * scale }, groupValue(group, "yRot"));
+  return { x: group.x + offset.x, y: group.y + offset.y, z: group.z + offset.z };
+}
+
+function decompose(group: GroupTransform, point: GroupPivot, valueOf: (key: keyof StoredTransform) => number): MemberLocal {
+  const transform = { ...GROUP_IDENTITY_TRANSFORM };
+  for (const key of TRANSFORM_KEYS) {
+    const value = valueOf(key);
+    const base = groupValue(group, key);
+    transform[key] = MULTIPLICATIVE_KEYS.has(key) ? value / (base === 0 ? 1 : base) : value - base;
+  }
+  return { ...toLocalPoint(group, point), transform };
+}
+
+export function decomposeMember(group: GroupTransform, record: FmbeRecord): MemberLocal {
+  return decompose(group, record, (key) => getRecordField(record, key));
+}
+
+export function composeMember(group: GroupTransform, local: MemberLocal): Pick<FmbeRecord, "x" | "y" | "z" | "transform"> {
+  const transform: StoredTransform = {};
+  for (const key of TRANSFORM_KEYS) {
+    const value = local.transform[key] ?? GROUP_IDENTITY_TRANSFORM[key];
+    const base = groupValue(group, key);
+    transform[key] = MULTIPLICATIVE_KEYS.has(key) ? value * base : value + base;
+  }
+  return { ...toWorldPoint(group, local), transform: normalizeTransform(transform) };
+}
+
+export function resolveGroupPivot(meta: GroupMeta | undefined, members: FmbeRecord[]): GroupPivot {
+  return meta?.pivot ? { ...meta.pivot } : getCentroid(members);
+}
+
+export function orbitPoint(point: GroupPivot, pivot: GroupPivot, degrees: number): GroupPivot {
+  const offset = rotateYaw({ x: point.x - pivot.x, y: point.y - pivot.y, z: point.z - pivot.z }, degrees);
+  return { x: pivot.x + offset.x, y: pivot.y + offset.y, z: pivot.z + offset.z };
+}
+
+export function orbitMember(record: FmbeRecord, pivot: GroupPivot, degrees: number): FmbeRecord {
+  return {
+    ...record,
+    ...orbitPoint(record, pivot, degrees),
+    transform: normalizeTransform({ ...record.transform, yRot: getRecordField(record, "yRot") + degrees }),
+  };
+}
+
+function matchesComposed(record: FmbeRecord, composed: MemberLocal): boolean {
+  const expected: FmbeRecord = { ...record, ...composed };
+  const fields = ["x", "y", "z", ...TRANSFORM_KEYS] as const;
+  return fields.every((field) => Math.abs(getRecordField(record, field) - getRecordField(expected, field)) < COMPOSED_EPSILON);
+}
+
+export function recomposeMember(
+  previous: GroupTransform,
+  next: GroupTransform,
+  record: FmbeRecord,
+  stored?: GroupMemberLocal
+): { record: FmbeRecord; local: GroupMemberLocal } {
+  const local = stored && matchesComposed(record, stored.composed) ? stored.local : decomposeMember(previous, record);
+  const composed = composeMember(next, local);
+  return {
+    record: { ...record, ...composed, preset: next.preset !== previous.preset ? next.preset : record.preset },
+    local: { local, composed },
+  };
+}
+
+export function recomposeGroupTransform(previous: GroupTransform, next: GroupTransform, child: GroupTransform): GroupTransform {
+  const composed = composeMember(next, decompose(previous, child, (key) => groupValue(child, key)));
+  return { ...child, ...composed, preset: next.preset !== previous.preset ? next.preset : child.preset };
+}
+
+export function recomposePoint(previous: GroupTransform, next: GroupTransform, point: GroupPivot): GroupPivot {
+  return toWorldPoint(next, toLocalPoint(previous, point));
+}
+
+export function orbitGroupTransform(group: GroupTransform, pivot: GroupPivot, degrees: number): GroupTransform {
+  return {
+    ...group,
+    ...orbitPoint(group, pivot, degrees),
+    transform: normalizeTransform({ ...group.transform, yRot: groupValue(group, "yRot") + degrees }),
+  };
+}
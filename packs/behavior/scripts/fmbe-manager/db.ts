@@ -1,47 +1,40 @@
-import { world } from "@minecraft/server";
+import { type Vector3 } from "@minecraft/server";
 import { MinecraftDimensionTypes } from "@minecraft/vanilla-data";
-import { normalizeTransform, now, parseTransformJson } from "./helpers.ts";
+import { ensureGroupSchema } from "./groups.ts";
+import { normalizeTransform, now, toAttachment, toBillboard } from "./helpers.ts";
+import { runMigrations } from "./migrations.ts";
+import { toMotions } from "./motion.ts";
+import { clearSpatialIndex, indexRecord, queryBox, queryRadius, unindexRecord } from "./spatial.ts";
+import { createShardedStore } from "./storage.ts";
 import { type FmbeRecord } from "./types.ts";
 
 const STORE_KEY = "fmbe:records";
 
+const store = createShardedStore<FmbeRecord>(STORE_KEY, (id, value) =>
+  toRecord({ ...(value as Record<string, unknown>), id })
+);
+
 let records = new Map<string, FmbeRecord>();
 let loaded = false;
+let revision = 0;
+let sortedIds: string[] | undefined;
+const recordRevisions = new Map<string, number>();
+const changedIds = new Set<string>();
 
 function ensureLoaded(): void {
   if (loaded) return;
-
-  const raw = world.getDynamicProperty(STORE_KEY);
-  if (typeof raw !== "string" || raw.length === 0) {
-    records = new Map<string, FmbeRecord>();
-    loaded = true;
-    return;
-  }
-
-  try {
-    const parsed = JSON.parse(raw) as Record<string, Record<string, unknown>>;
-    records = new Map<string, FmbeRecord>();
-    for (const [id, value] of Object.entries(parsed)) {
-      const row = toRecord({ ...value, id });
-      records.set(id, row);
-    }
-  } catch {
-    records = new Map<string, FmbeRecord>();
-  }
-
+  records = store.load();
+  sortedIds = undefined;
+  clearSpatialIndex();
+  for (const record of records.values()) indexRecord(record);
   loaded = true;
 }
 
-function save(): void {
-  const snapshot: Record<string, FmbeRecord> = {};
-  for (const [id, record] of records) {
-    snapshot[id] = record;
-  }
-  world.setDynamicProperty(STORE_KEY, JSON.stringify(snapshot));
-}
-
 function toRecord(row: Record<string, unknown>): FmbeRecord {
   const transformFromRow = row.transform as FmbeRecord["transform"] | undefined;
+  const motion = toMotions(row.motion);
+  const billboard = toBillboard(row.billboard);
+  const attachment = toAttachment(row.attachment);
   return {
     id: String(row.id ?? ""),
     preset: String(row.preset ?? "item") as FmbeRecord["preset"],
@@ -51,19 +44,32 @@ function toRecord(row: Record<string, unknown>): FmbeRecord {
     x: Number(row.x ?? 0),
     y: Number(row.y ?? 0),
     z: Number(row.z ?? 0),
-    transform: normalizeTransform(transformFromRow ?? parseTransformJson(row.transformJson)),
+    transform: normalizeTransform(transformFromRow ?? {}),
+    ...(typeof row.streamRadius === "number" && Number.isFinite(row.streamRadius)
+      ? { streamRadius: row.streamRadius }
+      : {}),
+    ...(motion ? { motion } : {}),
+    ...(billboard ? { billboard } : {}),
+    ...(attachment ? { attachment } : {}),
     updatedAt: Number(row.updatedAt ?? now()),
   };
 }
 
 export function ensureSchema(): void {
+  runMigrations();
+  loaded = false;
   ensureLoaded();
+  ensureGroupSchema();
 }
 
 export function upsertRecord(record: FmbeRecord): void {
   ensureLoaded();
-  records.set(record.id, { ...record, transform: normalizeTransform(record.transform) });
-  save();
+  if (!records.has(record.id)) sortedIds = undefined;
+  store.set(record.id, { ...record, transform: normalizeTransform(record.transform) });
+  store.flush();
+  indexRecord(record);
+  recordRevisions.set(record.id, ++revision);
+  changedIds.add(record.id);
 }
 
 export function getRecordById(id: string): FmbeRecord | undefined {
@@ -79,8 +85,44 @@ export function getAllRecords(): FmbeRecord[] {
     .sort((a, b) => a.id.localeCompare(b.id));
 }
 
+export function getRecordIds(): readonly string[] {
+  ensureLoaded();
+  if (!sortedIds) sortedIds = [...records.keys()].sort((a, b) => a.localeCompare(b));
+  return sortedIds;
+}
+
+export function getRecordsInRadius(dimensionId: string, center: Vector3, radius: number): FmbeRecord[] {
+  ensureLoaded();
+  return queryRadius(dimensionId, center, radius).flatMap((id) => {
+    const row = records.get(id);
+    return row ? [{ ...row }] : [];
+  });
+}
+
+export function getRecordsInBox(dimensionId: string, from: Vector3, to: Vector3): FmbeRecord[] {
+  ensureLoaded();
+  return queryBox(dimensionId, from, to).flatMap((id) => {
+    const row = records.get(id);
+    return row ? [{ ...row }] : [];
+  });
+}
+
+export function takeChangedRecordIds(): string[] {
+  const ids = [...changedIds];
+  changedIds.clear();
+  return ids;
+}
+
 export function removeRecordById(id: string): void {
   ensureLoaded();
-  records.delete(id);
-  save();
+  store.delete(id);
+  store.flush();
+  unindexRecord(id);
+  sortedIds = undefined;
+  recordRevisions.delete(id);
+  changedIds.delete(id);
+}
+
+export function getRecordRevision(id: string): number {
+  return recordRevisions.get(id) ?? 0;
 }
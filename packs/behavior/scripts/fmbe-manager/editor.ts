@@ -0,0 +1,241 @@
+import { CommandPermissionLevel, Player, system, world, type Entity } from "@minecraft/server";
+import { ActionFormData, FormCancelationReason, ModalFormData, type ModalFormResponse } from "@minecraft/server-ui";
+import { getRecordById, upsertRecord } from "./db.ts";
+import { applyRecordToEntity, isManagedEntity } from "./entities.ts";
+import { clearRecordGroup, getGroupForRecord, hasGroup, listGroups, setRecordGroup } from "./groups.ts";
+import {
+  DP_ID,
+  getRecordField,
+  isNamespacedId,
+  normalizeTransform,
+  now,
+  presetFromAnyEnum,
+  presetToDisplay,
+} from "./helpers.ts";
+import { beginHistory } from "./history.ts";
+import { clearPreview, setPreview } from "./state.ts";
+import { type FmbeRecord, type StoredTransform } from "./types.ts";
+
+const PRESET_OPTIONS = ["Item", "2D", "3D"];
+const NO_GROUP_LABEL = "(none)";
+const SHOW_RETRY_LIMIT = 20;
+
+type EditorField =
+  | { kind: "text"; key: keyof StoredTransform; label: string }
+  | { kind: "slider"; key: keyof StoredTransform; label: string; min: number; max: number };
+
+const TRANSFORM_FIELDS: EditorField[] = [
+  { kind: "text", key: "xOffset", label: "xOffset" },
+  { kind: "text", key: "yOffset", label: "yOffset" },
+  { kind: "text", key: "zOffset", label: "zOffset" },
+  { kind: "slider", key: "xRot", label: "xRot", min: -360, max: 360 },
+  { kind: "slider", key: "yRot", label: "yRot", min: -360, max: 360 },
+  { kind: "slider", key: "zRot", label: "zRot", min: -360, max: 360 },
+  { kind: "text", key: "scale", label: "scale" },
+  { kind: "text", key: "extendScale", label: "extendScale" },
+  { kind: "slider", key: "extendXrot", label: "extendXrot", min: -360, max: 360 },
+  { kind: "slider", key: "extendYrot", label: "extendYrot", min: -360, max: 360 },
+  { kind: "slider", key: "extendZrot", label: "extendZrot", min: -360, max: 360 },
+  { kind: "text", key: "xBasePos", label: "xBasePos" },
+  { kind: "text", key: "yBasePos", label: "yBasePos" },
+  { kind: "text", key: "zBasePos", label: "zBasePos" },
+];
+
+interface EditorDraft {
+  record: FmbeRecord;
+  group: string | undefined;
+}
+
+async function showWhenReady<T extends { canceled: boolean; cancelationReason?: FormCancelationReason }>(
+  show: () => Promise<T>
+): Promise<T> {
+  let response = await show();
+  for (let attempt = 0; attempt < SHOW_RETRY_LIMIT; attempt++) {
+    if (response.cancelationReason !== FormCancelationReason.UserBusy) break;
+    await system.waitTicks(10);
+    response = await show();
+  }
+  return response;
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function parseNumber(label: string, value: unknown): number {
+  const parsed = Number(String(value ?? "").trim());
+  if (String(value ?? "").trim().length === 0 || !Number.isFinite(parsed)) {
+    throw new Error(`invalid number for ${label}: ${String(value)}`);
+  }
+  return parsed;
+}
+
+function getTypeId(record: FmbeRecord): string {
+  if (record.preset === "item") return record.itemTypeId ?? record.blockTypeId ?? "";
+  return record.blockTypeId ?? record.itemTypeId ?? "";
+}
+
+function buildEditorForm(draft: EditorDraft, groups: string[]): ModalFormData {
+  const { record } = draft;
+  const form = new ModalFormData()
+    .title(`FMBE ${record.id}`)
+    .dropdown("preset", PRESET_OPTIONS, { defaultValueIndex: PRESET_OPTIONS.indexOf(presetToDisplay(record.preset)) })
+    .textField("block/item type id", "minecraft:stone", { defaultValue: getTypeId(record) })
+    .textField("x", "0", { defaultValue: formatNumber(record.x) })
+    .textField("y", "0", { defaultValue: formatNumber(record.y) })
+    .textField("z", "0", { defaultValue: formatNumber(record.z) })
+    .dropdown("group", [NO_GROUP_LABEL, ...groups], {
+      defaultValueIndex: draft.group ? Math.max(0, groups.indexOf(draft.group) + 1) : 0,
+    });
+
+  for (const field of TRANSFORM_FIELDS) {
+    const current = getRecordField(record, field.key);
+    if (field.kind === "slider") {
+      form.slider(field.label, field.min, field.max, { valueStep: 1, defaultValue: Math.round(current) });
+    } else {
+      form.textField(field.label, formatNumber(current), { defaultValue: formatNumber(current) });
+    }
+  }
+
+  return form.submitButton("Preview");
+}
+
+function readEditorForm(draft: EditorDraft, groups: string[], response: ModalFormResponse): EditorDraft {
+  const values = response.formValues ?? [];
+  const { record } = draft;
+
+  const preset = presetFromAnyEnum(PRESET_OPTIONS[Number(values[0] ?? 0)] ?? "Item");
+  const typeId = String(values[1] ?? "").trim();
+  if (typeId.length > 0 && !isNamespacedId(typeId)) throw new Error(`invalid type id: ${typeId}`);
+
+  const groupIndex = Number(values[5] ?? 0);
+  const group = groupIndex === 0 ? undefined : groups[groupIndex - 1];
+
+  const transform: StoredTransform = { ...record.transform };
+  TRANSFORM_FIELDS.forEach((field, index) => {
+    const value = values[6 + index];
+    if (field.kind === "slider") {
+      const current = getRecordField(record, field.key);
+      if (Number(value) === Math.round(current)) return;
+      transform[field.key] = Number(value);
+      return;
+    }
+    transform[field.key] = parseNumber(field.label, value);
+  });
+
+  const next: FmbeRecord = {
+    ...record,
+    preset,
+    x: parseNumber("x", values[2]),
+    y: parseNumber("y", values[3]),
+    z: parseNumber("z", values[4]),
+    transform: normalizeTransform(transform),
+  };
+  if (typeId.length > 0) {
+    if (preset === "item") {
+      next.itemTypeId = typeId;
+    } else {
+      next.blockTypeId = typeId;
+    }
+  }
+
+  return { record: next, group };
+}
+
+function showOnEntity(entity: Entity, record: FmbeRecord): void {
+  if (!entity.isValid) return;
+  entity.teleport({ x: record.x, y: record.y, z: record.z }, { dimension: world.getDimension(record.dimensionId) });
+  applyRecordToEntity(entity, record);
+}
+
+async function runEditor(player: Player, entity: Entity, original: FmbeRecord): Promise<void> {
+  const originalGroup = getGroupForRecord(original.id);
+  let draft: EditorDraft = { record: original, group: originalGroup };
+
+  try {
+    for (;;) {
+      const groups = listGroups();
+      const response = await showWhenReady(() => buildEditorForm(draft, groups).show(player));
+      if (response.canceled) {
+        player.sendMessage("§8[§bFMBE§8]§r §eedit canceled.");
+        return;
+      }
+
+      try {
+        draft = readEditorForm(draft, groups, response);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        player.sendMessage(`§8[§bFMBE§8]§r §c${message}`);
+        continue;
+      }
+
+      setPreview(original.id, draft.record);
+      showOnEntity(entity, draft.record);
+
+      const confirm = await showWhenReady(() =>
+        new ActionFormData()
+          .title(`FMBE ${original.id}`)
+          .body("Previewing changes. Apply them?")
+          .button("Confirm")
+          .button("Edit again")
+          .button("Discard")
+          .show(player)
+      );
+
+      if (confirm.selection === 1) continue;
+      if (confirm.selection !== 0) {
+        player.sendMessage("§8[§bFMBE§8]§r §eedit discarded.");
+        return;
+      }
+
+      if (draft.group && !hasGroup(draft.group)) throw new Error(`group not found: ${draft.group}`);
+      const next: FmbeRecord = { ...draft.record, updatedAt: now() };
+      const history = beginHistory(player.id, "edit");
+      history.capture(next.id);
+      upsertRecord(next);
+      if (draft.group !== originalGroup) {
+        if (draft.group) {
+          setRecordGroup(next.id, draft.group);
+        } else {
+          clearRecordGroup(next.id);
+        }
+      }
+      history.commit();
+      clearPreview(original.id);
+      showOnEntity(entity, next);
+      player.sendMessage(`§8[§bFMBE§8]§r §aedit applied: ${next.id}`);
+      return;
+    }
+  } finally {
+    clearPreview(original.id);
+    const stored = getRecordById(original.id);
+    if (stored) showOnEntity(entity, stored);
+  }
+}
+
+export function openRecordEditor(player: Player, entity: Entity): void {
+  const fmbeId = entity.getDynamicProperty(DP_ID);
+  if (typeof fmbeId !== "string") throw new Error("target has no fmbe id.");
+  const record = getRecordById(fmbeId);
+  if (!record) throw new Error(`record missing for ${fmbeId}`);
+
+  runEditor(player, entity, record).catch((error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    player.sendMessage(`§8[§bFMBE§8]§r §c${message}`);
+  });
+}
+
+export function registerEditorTrigger(): void {
+  world.beforeEvents.playerInteractWithEntity.subscribe((event) => {
+    const { player, target } = event;
+    if (!player.isSneaking) return;
+    if (player.commandPermissionLevel < CommandPermissionLevel.GameDirectors) return;
+    if (!isManagedEntity(target)) return;
+
+    event.cancel = true;
+    system.run(() => {
+      if (!target.isValid) return;
+      openRecordEditor(player, target);
+    });
+  });
+}
@@ -24,6 +24,30 @@ import { clearEntityGroupMembership, syncEntityGroupMembership } from "./groups.
 const ID_TAG_PREFIX = "fmbe:";
 const MANAGED_TAG = "fmbe";
 
+const entityCache = new Map<string, Entity>();
+const fmbeIdByRuntimeId = new Map<string, string>();
+let cacheReady = false;
+
+function cacheEntity(fmbeId: string, entity: Entity): void {
+  const previous = entityCache.get(fmbeId);
+  if (previous && previous.id !== entity.id) fmbeIdByRuntimeId.delete(previous.id);
+  entityCache.set(fmbeId, entity);
+  fmbeIdByRuntimeId.set(entity.id, fmbeId);
+}
+
+function uncacheRuntimeId(runtimeId: string): void {
+  const fmbeId = fmbeIdByRuntimeId.get(runtimeId);
+  if (fmbeId === undefined) return;
+  fmbeIdByRuntimeId.delete(runtimeId);
+  if (entityCache.get(fmbeId)?.id === runtimeId) entityCache.delete(fmbeId);
+}
+
+function trackEntity(entity: Entity): void {
+  if (!entity.isValid || !isManagedEntity(entity)) return;
+  const fmbeId = entity.getDynamicProperty(DP_ID);
+  if (typeof fmbeId === "string") cacheEntity(fmbeId, entity);
+}
+
 function sanitizeIdForTag(id: string): string {
   return id.replace(/[^a-zA-Z0-9_:\-./]/g, "_");
 }
@@ -94,6 +118,7 @@ export function applyRecordToEntity(entity: Entity, record: FmbeRecord): void {
   entity.setDynamicProperty(DP_EXTEND_ZROT, normalizedTransform.extendZrot ?? undefined);
   ensureManagedTag(entity);
   syncIdTag(entity, record.id);
+  cacheEntity(record.id, entity);
   syncEntityGroupMembership(entity, record.id);
   syncEntityScores(entity, { ...record, transform: normalizedTransform });
 
@@ -105,7 +130,15 @@ export function applyRecordToEntity(entity: Entity, record: FmbeRecord): void {
   enforceMainhand(entity, record);
 }
 
+export function applyRenderPose(entity: Entity, record: FmbeRecord): void {
+  defaultFmbeManager.applyRenderData(entity, {
+    type: presetToRenderType(record.preset),
+    variables: transformToRenderVariables(normalizeTransform(record.transform)),
+  });
+}
+
 export function removeManagedEntity(entity: Entity): void {
+  uncacheRuntimeId(entity.id);
   removeEntityScores(entity);
   clearEntityGroupMembership(entity);
   entity.removeTag(MANAGED_TAG);
@@ -124,28 +157,65 @@ export function removeManagedEntity(entity: Entity): void {
 
 export function getAllManagedEntities(): Entity[] {
   const result: Entity[] = [];
+  entityCache.clear();
+  fmbeIdByRuntimeId.clear();
   for (const dimensionId of DIMENSIONS) {
     const dimension = world.getDimension(dimensionId);
     for (const entity of dimension.getEntities({ type: MinecraftEntityTypes.Fox })) {
-      if (isManagedEntity(entity)) result.push(entity);
+      if (!isManagedEntity(entity)) continue;
+      result.push(entity);
+      trackEntity(entity);
     }
   }
+  cacheReady = true;
   return result;
 }
 
-export function findEntityByRuntimeId(runtimeId: string): Entity | undefined {
-  for (const entity of getAllManagedEntities()) {
-    if (entity.id === runtimeId) return entity;
+export function registerEntityTracking(): void {
+  world.afterEvents.entitySpawn.subscribe((event) => trackEntity(event.entity));
+  world.afterEvents.entityLoad.subscribe((event) => trackEntity(event.entity));
+  world.afterEvents.entityRemove.subscribe((event) => uncacheRuntimeId(event.removedEntityId), {
+    entityTypes: [MinecraftEntityTypes.Fox],
+  });
+}
+
+export function invalidateEntityCache(): void {
+  cacheReady = false;
+}
+
+export function getManagedEntityMap(): Map<string, Entity> {
+  if (!cacheReady) getAllManagedEntities();
+
+  for (const [fmbeId, entity] of entityCache) {
+    if (entity.isValid) continue;
+    entityCache.delete(fmbeId);
+    fmbeIdByRuntimeId.delete(entity.id);
   }
-  return undefined;
+  return entityCache;
+}
+
+export function findEntityByRuntimeId(runtimeId: string): Entity | undefined {
+  const fmbeId = fmbeIdByRuntimeId.get(runtimeId);
+  if (fmbeId === undefined) return undefined;
+  return getManagedEntityMap().get(fmbeId);
 }
 
 export function findEntityByFmbeId(id: string): Entity | undefined {
-  for (const entity of getAllManagedEntities()) {
-    const fmbeId = entity.getDynamicProperty(DP_ID);
-    if (fmbeId === id) return entity;
-  }
-  return undefined;
+  const entity = getManagedEntityMap().get(id);
+  if (!entity || entity.getDynamicProperty(DP_ID) !== id) return undefined;
+  return entity;
+}
+
+export function findLoadedEntityForRecord(record: FmbeRecord): Entity | undefined {
+  const dimension = world.getDimension(record.dimensionId);
+  const location = { x: record.x, y: record.y, z: record.z };
+  if (!dimension.isChunkLoaded(location)) return undefined;
+
+  const entity = dimension
+    .getEntities({ type: MinecraftEntityTypes.Fox, location, maxDistance: 2, tags: [getIdTag(record.id)] })
+    .find((candidate) => isManagedEntity(candidate) && candidate.getDynamicProperty(DP_ID) === record.id);
+  if (entity) cacheEntity(record.id, entity);
+  return entity;
 }
 
 export function resolveTargetEntity(origin: CustomCommandOrigin, entityArg?: Entity): Entity | undefined {
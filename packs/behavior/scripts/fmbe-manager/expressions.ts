@@ -0,0 +1,214 @@
+export const EXPRESSION_VARIABLES = ["tick", "time", "pi"] as const;
+
+type ExpressionVariable = (typeof EXPRESSION_VARIABLES)[number];
+type BinaryOperator = "+" | "-" | "*" | "/" | "%" | "^";
+
+export type ExpressionNode =
+  | { kind: "number"; value: number }
+  | { kind: "variable"; name: ExpressionVariable }
+  | { kind: "score"; objective: string; participant: string }
+  | { kind: "negate"; operand: ExpressionNode }
+  | { kind: "binary"; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: "call"; name: string; args: ExpressionNode[] };
+
+export interface ExpressionContext {
+  tick: number;
+  score(objective: string, participant: string): number | undefined;
+}
+
+const DEG_TO_RAD = Math.PI / 180;
+
+const FUNCTIONS: Record<string, { min: number; max: number; apply: (args: number[]) => number }> = {
+  sin: { min: 1, max: 1, apply: ([value]) => Math.sin(value! * DEG_TO_RAD) },
+  cos: { min: 1, max: 1, apply: ([value]) => Math.cos(value! * DEG_TO_RAD) },
+  abs: { min: 1, max: 1, apply: ([value]) => Math.abs(value!) },
+  floor: { min: 1, max: 1, apply: ([value]) => Math.floor(value!) },
+  ceil: { min: 1, max: 1, apply: ([value]) => Math.ceil(value!) },
+  round: { min: 1, max: 1, apply: ([value]) => Math.round(value!) },
+  sqrt: { min: 1, max: 1, apply: ([value]) => Math.sqrt(value!) },
+  min: { min: 2, max: Infinity, apply: (args) => Math.min(...args) },
+  max: { min: 2, max: Infinity, apply: (args) => Math.max(...args) },
+  clamp: { min: 3, max: 3, apply: ([value, low, high]) => Math.min(high!, Math.max(low!, value!)) },
+  lerp: { min: 3, max: 3, apply: ([from, to, alpha]) => from! + (to! - from!) * alpha! },
+};
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+const MAX_EXPRESSION_LENGTH = 256;
+
+export function parseExpression(source: string): ExpressionNode {
+  const text = source.trim();
+  if (text.length === 0) throw new Error("expression must not be empty.");
+  if (text.length > MAX_EXPRESSION_LENGTH) throw new Error("expression too long.");
+  let index = 0;
+
+  function parse(): ExpressionNode {
+    const node = parseAdditive();
+    skipSpaces();
+    if (index < text.length) fail(`unexpected "${text[index]}"`);
+    return node;
+  }
+
+  function fail(message: string): never {
+    throw new Error(`expression error at ${index + 1}: ${message}`);
+  }
+
+  function skipSpaces(): void {
+    while (index < text.length && /\s/.test(text[index]!)) index++;
+  }
+
+  function peek(): string | undefined {
+    skipSpaces();
+    return text[index];
+  }
+
+  function expect(char: string): void {
+    if (peek() !== char) fail(`expected "${char}"`);
+    index++;
+  }
+
+  function parseAdditive(): ExpressionNode {
+    let left = parseMultiplicative();
+    for (let char = peek(); char === "+" || char === "-"; char = peek()) {
+      index++;
+      left = { kind: "binary", operator: char, left, right: parseMultiplicative() };
+    }
+    return left;
+  }
+
+  function parseMultiplicative(): ExpressionNode {
+    let left = parseUnary();
+    for (let char = peek(); char === "*" || char === "/" || char === "%"; char = peek()) {
+      index++;
+      left = { kind: "binary", operator: char, left, right: parseUnary() };
+    }
+    return left;
+  }
+
+  function parseUnary(): ExpressionNode {
+    const char = peek();
+    if (char === "-") {
+      index++;
+      return { kind: "negate", operand: parseUnary() };
+    }
+    if (char === "+") {
+      index++;
+      return parseUnary();
+    }
+    return parsePower();
+  }
+
+  function parsePower(): ExpressionNode {
+    const base = parsePrimary();
+    if (peek() !== "^") return base;
+    index++;
+    return { kind: "binary", operator: "^", left: base, right: parseUnary() };
+  }
+
+  function parsePrimary(): ExpressionNode {
+    const char = peek();
+    if (char === undefined) fail("unexpected end");
+
+    if (char === "(") {
+      index++;
+      const node = parseAdditive();
+      expect(")");
+      return node;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)/.exec(text.slice(index));
+    if (number) {
+      index += number[0].length;
+      return { kind: "number", value: Number(number[0]) };
+    }
+
+    const identifier = /^[a-zA-Z_]\w*/.exec(text.slice(index));
+    if (!identifier) fail(`unexpected "${char}"`);
+    const name = identifier[0];
+    index += name.length;
+
+    if (peek() !== "(") {
+      if (!(EXPRESSION_VARIABLES as readonly string[]).includes(name)) fail(`unknown variable: ${name}`);
+      return { kind: "variable", name: name as ExpressionVariable };
+    }
+
+    index++;
+    if (name === "score") {
+      const objective = parseRawArgument();
+      expect(",");
+      const participant = parseRawArgument();
+      expect(")");
+      return { kind: "score", objective, participant };
+    }
+
+    const fn = FUNCTIONS[name];
+    if (!fn) fail(`unknown function: ${name}`);
+    const args: ExpressionNode[] = [];
+    if (peek() !== ")") {
+      args.push(parseAdditive());
+      while (peek() === ",") {
+        index++;
+        args.push(parseAdditive());
+      }
+    }
+    expect(")");
+    if (args.length < fn.min || args.length > fn.max) fail(`wrong argument count for ${name}`);
+    return { kind: "call", name, args };
+  }
+
+  function parseRawArgument(): string {
+    const char = peek();
+    if (char === '"' || char === "'") {
+      const end = text.indexOf(char, index + 1);
+      if (end < 0) fail("unterminated quote");
+      const value = text.slice(index + 1, end);
+      index = end + 1;
+      if (value.length === 0) fail("empty score argument");
+      return value;
+    }
+
+    const start = index;
+    while (index < text.length && !/[,)]/.test(text[index]!)) index++;
+    const value = text.slice(start, index).trim();
+    if (value.length === 0) fail("empty score argument");
+    return value;
+  }
+
+  return parse();
+}
+
+export function evaluateExpression(node: ExpressionNode, context: ExpressionContext): number {
+  switch (node.kind) {
+    case "number":
+      return node.value;
+    case "variable":
+      if (node.name === "tick") return context.tick;
+      if (node.name === "time") return context.tick / 20;
+      return Math.PI;
+    case "score":
+      return context.score(node.objective, node.participant) ?? 0;
+    case "negate":
+      return -evaluateExpression(node.operand, context);
+    case "binary": {
+      const left = evaluateExpression(node.left, context);
+      const right = evaluateExpression(node.right, context);
+      switch (node.operator) {
+        case "+":
+          return left + right;
+        case "-":
+          return left - right;
+        case "*":
+          return left * right;
+        case "/":
+          return left / right;
+        case "%":
+          return left % right;
+        case "^":
+          return left ** right;
+      }
+      return Number.NaN;
+    }
+    case "call":
+      return FUNCTIONS[node.name]!.apply(node.args.map((arg) => evaluateExpression(arg, context)));
+  }
+}
@@ -0,0 +1,55 @@
+import { type Vector3 } from "@minecraft/server";
+import { type StoredTransform } from "./types.ts";
+
+export type Axis = "x" | "y" | "z";
+export type MirrorAxis = "none" | Axis;
+
+export const AXES: readonly Axis[] = ["x", "y", "z"];
+
+const MIRRORED_ROTATIONS: Record<Axis, Array<"xRot" | "zRot">> = {
+  x: ["zRot"],
+  y: ["xRot", "zRot"],
+  z: ["xRot"],
+};
+
+export function rotateYaw(point: Vector3, degrees: number): Vector3 {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const x = point.x * cos - point.z * sin;
+  const z = point.x * sin + point.z * cos;
+  return { x: Math.abs(x) < 1e-9 ? 0 : x, y: point.y, z: Math.abs(z) < 1e-9 ? 0 : z };
+}
+
+export function mirrorPoint(point: Vector3, axis: MirrorAxis): Vector3 {
+  if (axis === "x") return { ...point, x: -point.x };
+  if (axis === "y") return { ...point, y: -point.y };
+  if (axis === "z") return { ...point, z: -point.z };
+  return { ...point };
+}
+
+export function mirrorYaw(yaw: number, axis: MirrorAxis): number {
+  if (axis === "x") return -yaw;
+  if (axis === "z") return 180 - yaw;
+  return yaw;
+}
+
+export function mirrorTransform(transform: StoredTransform, axis: MirrorAxis): StoredTransform {
+  if (axis === "none") return { ...transform };
+  const next: StoredTransform = { ...transform };
+  if (axis !== "y") next.yRot = mirrorYaw(transform.yRot ?? 0, axis);
+  for (const field of MIRRORED_ROTATIONS[axis]) {
+    if (transform[field] !== undefined) next[field] = -transform[field];
+  }
+  return next;
+}
+
+export function getCentroid(points: Vector3[]): Vector3 {
+  if (points.length === 0) return { x: 0, y: 0, z: 0 };
+  const sum = points.reduce((acc, point) => ({ x: acc.x + point.x, y: acc.y + point.y, z: acc.z + point.z }), {
+    x: 0,
+    y: 0,
+    z: 0,
+  });
+  return { x: sum.x / points.length, y: sum.y / points.length, z: sum.z / points.length };
+}
@@ -1,40 +1,121 @@
-import { world, type Entity } from "@minecraft/server";
+import { type Entity } from "@minecraft/server";
+import { createShardedStore } from "./storage.ts";
+import { asNumber, toBillboard, toTransform, TRANSFORM_KEYS } from "./helpers.ts";
+import {
+  type FmbePreset,
+  type GroupMemberLocal,
+  type GroupMeta,
+  type GroupPivot,
+  type GroupTransform,
+  type MemberLocal,
+  type StoredTransform,
+} from "./types.ts";
 
 const STORE_KEY = "fmbe:groups";
 const ENTITY_GROUP_DP = "fmbe:group";
 const GROUP_TAG_PREFIX = "fmbe:group:";
 
+interface GroupEntry {
+  members: string[];
+  meta: GroupMeta;
+}
+
+const store = createShardedStore<GroupEntry>(STORE_KEY, (_groupName, value) => toGroupEntry(value));
+
 let loaded = false;
 let groups = new Map<string, Set<string>>();
+let groupMeta = new Map<string, GroupMeta>();
+let membershipRevision = 0;
 
-function ensureLoaded(): void {
-  if (loaded) return;
+function toGroupEntry(value: unknown): GroupEntry {
+  if (Array.isArray(value)) return { members: value.map((id) => String(id)), meta: {} };
 
-  const raw = world.getDynamicProperty(STORE_KEY);
-  if (typeof raw !== "string" || raw.length === 0) {
-    loaded = true;
-    return;
+  const row = (value ?? {}) as Partial<Record<keyof GroupEntry, unknown>>;
+  const members = Array.isArray(row.members) ? row.members.map((id) => String(id)) : [];
+  const rawMeta = (row.meta ?? {}) as Partial<Record<keyof GroupMeta, unknown>>;
+  const meta: GroupMeta = {};
+  if (typeof rawMeta.streamRadius === "number" && Number.isFinite(rawMeta.streamRadius)) {
+    meta.streamRadius = rawMeta.streamRadius;
+  }
+  const transform = toGroupTransform(rawMeta.transform);
+  if (transform) meta.transform = transform;
+  const pivot = rawMeta.pivot as Partial<GroupPivot> | undefined;
+  if (pivot && [pivot.x, pivot.y, pivot.z].every((value) => typeof value === "number" && Number.isFinite(value))) {
+    meta.pivot = { x: pivot.x!, y: pivot.y!, z: pivot.z! };
   }
+  if (typeof rawMeta.parent === "string" && rawMeta.parent.length > 0) meta.parent = rawMeta.parent;
+  const billboard = toBillboard(rawMeta.billboard);
+  if (billboard) meta.billboard = billboard;
+  const locals = toMemberLocals(rawMeta.locals);
+  if (locals) meta.locals = locals;
+  return { members, meta };
+}
 
-  try {
-    const parsed = JSON.parse(raw) as Record<string, string[]>;
-    groups = new Map<string, Set<string>>();
-    for (const [groupName, ids] of Object.entries(parsed)) {
-      groups.set(groupName, new Set(ids));
-    }
-  } catch {
-    groups = new Map<string, Set<string>>();
+function toMemberLocal(value: unknown): MemberLocal | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const row = value as Record<string, unknown>;
+  const x = asNumber(row.x);
+  const y = asNumber(row.y);
+  const z = asNumber(row.z);
+  if (x === undefined || y === undefined || z === undefined) return undefined;
+  const rawTransform = (row.transform ?? {}) as Record<string, unknown>;
+  const transform: StoredTransform = {};
+  for (const key of TRANSFORM_KEYS) {
+    const field = asNumber(rawTransform[key]);
+    if (field !== undefined) transform[key] = field;
+  }
+  return { x, y, z, transform };
+}
+
+function toMemberLocals(value: unknown): Record<string, GroupMemberLocal> | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const locals: Record<string, GroupMemberLocal> = {};
+  for (const [id, entry] of Object.entries(value as Record<string, unknown>)) {
+    const row = (entry ?? {}) as Record<string, unknown>;
+    const local = toMemberLocal(row.local);
+    const composed = toMemberLocal(row.composed);
+    if (local && composed) locals[id] = { local, composed };
+  }
+  return locals;
+}
+
+function toGroupTransform(value: unknown): GroupTransform | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const row = value as Record<string, unknown>;
+  const preset = String(row.preset ?? "item") as FmbePreset;
+  return {
+    preset: preset === "block2d" || preset === "block3d" ? preset : "item",
+    x: Number(row.x ?? 0),
+    y: Number(row.y ?? 0),
+    z: Number(row.z ?? 0),
+    transform: toTransform((row.transform ?? {}) as Record<string, unknown>),
+  };
+}
+
+function ensureLoaded(): void {
+  if (loaded) return;
+
+  groups = new Map<string, Set<string>>();
+  groupMeta = new Map<string, GroupMeta>();
+  for (const [groupName, entry] of store.load()) {
+    groups.set(groupName, new Set(entry.members));
+    groupMeta.set(groupName, entry.meta);
   }
 
   loaded = true;
 }
 
-function save(): void {
-  const snapshot: Record<string, string[]> = {};
-  for (const [groupName, ids] of groups) {
-    snapshot[groupName] = [...ids.values()];
+function save(groupNames: Iterable<string>): void {
+  for (const groupName of groupNames) {
+    const ids = groups.get(groupName);
+    if (ids) {
+      store.set(groupName, { members: [...ids.values()], meta: groupMeta.get(groupName) ?? {} });
+    } else {
+      groupMeta.delete(groupName);
+      store.delete(groupName);
+    }
   }
-  world.setDynamicProperty(STORE_KEY, JSON.stringify(snapshot));
+  store.flush();
 }
 
 function sanitizeGroupNameForTag(groupName: string): string {
@@ -53,6 +134,16 @@ function clearGroupTags(entity: Entity): void {
   }
 }
 
+export function ensureGroupSchema(): void {
+  loaded = false;
+  ensureLoaded();
+  membershipRevision++;
+}
+
+export function getMembershipRevision(): number {
+  return membershipRevision;
+}
+
 export function listGroups(): string[] {
   ensureLoaded();
   return [...groups.keys()].sort((a, b) => a.localeCompare(b));
@@ -67,7 +158,7 @@ export function createGroup(groupName: string): boolean {
   ensureLoaded();
   if (groups.has(groupName)) return false;
   groups.set(groupName, new Set<string>());
-  save();
+  save([groupName]);
   return true;
 }
 
@@ -76,11 +167,120 @@ export function deleteGroup(groupName: string): string[] | undefined {
   const members = groups.get(groupName);
   if (!members) return undefined;
   const ids = [...members.values()];
+  const parent = groupMeta.get(groupName)?.parent;
+  const changed = new Set<string>([groupName]);
+  for (const child of getChildGroups(groupName)) {
+    const meta = { ...groupMeta.get(child) };
+    if (parent) {
+      meta.parent = parent;
+    } else {
+      delete meta.parent;
+    }
+    groupMeta.set(child, meta);
+    changed.add(child);
+  }
   groups.delete(groupName);
-  save();
+  save(changed);
+  membershipRevision++;
   return ids;
 }
 
+export function getGroupParent(groupName: string): string | undefined {
+  ensureLoaded();
+  const parent = groupMeta.get(groupName)?.parent;
+  return parent && groups.has(parent) ? parent : undefined;
+}
+
+export function getChildGroups(groupName: string): string[] {
+  ensureLoaded();
+  return listGroups().filter((name) => getGroupParent(name) === groupName);
+}
+
+export function getGroupAncestors(groupName: string): string[] {
+  ensureLoaded();
+  const ancestors: string[] = [];
+  let parent = getGroupParent(groupName);
+  while (parent && parent !== groupName && !ancestors.includes(parent)) {
+    ancestors.push(parent);
+    parent = getGroupParent(parent);
+  }
+  return ancestors;
+}
+
+export function getDescendantGroups(groupName: string): string[] {
+  ensureLoaded();
+  const descendants: string[] = [];
+  const pending = getChildGroups(groupName);
+  while (pending.length > 0) {
+    const child = pending.shift()!;
+    if (child === groupName || descendants.includes(child)) continue;
+    descendants.push(child);
+    pending.push(...getChildGroups(child));
+  }
+  return descendants;
+}
+
+export function setGroupParent(groupName: string, parent: string | undefined): void {
+  ensureLoaded();
+  if (!groups.has(groupName)) throw new Error(`group not found: ${groupName}`);
+  if (parent !== undefined) {
+    if (!groups.has(parent)) throw new Error(`group not found: ${parent}`);
+    if (parent === groupName || getGroupAncestors(parent).includes(groupName)) {
+      throw new Error(`group cycle: ${parent} is ${groupName} or one of its descendants`);
+    }
+  }
+
+  const meta = { ...groupMeta.get(groupName) };
+  if (parent) {
+    meta.parent = parent;
+  } else {
+    delete meta.parent;
+  }
+  groupMeta.set(groupName, meta);
+  save([groupName]);
+}
+
+export function getGroupTree(): Array<{ groupName: string; depth: number }> {
+  ensureLoaded();
+  const rows: Array<{ groupName: string; depth: number }> = [];
+  const visited = new Set<string>();
+  const visit = (groupName: string, depth: number): void => {
+    if (visited.has(groupName)) return;
+    visited.add(groupName);
+    rows.push({ groupName, depth });
+    for (const child of getChildGroups(groupName)) visit(child, depth + 1);
+  };
+  for (const groupName of listGroups()) {
+    if (!getGroupParent(groupName)) visit(groupName, 0);
+  }
+  for (const groupName of listGroups()) visit(groupName, 0);
+  return rows;
+}
+
+export function getGroupMembersDeep(groupName: string): string[] {
+  ensureLoaded();
+  const ids = new Set(getGroupMembers(groupName));
+  for (const child of getDescendantGroups(groupName)) {
+    for (const id of getGroupMembers(child)) ids.add(id);
+  }
+  return [...ids.values()].sort((a, b) => a.localeCompare(b));
+}
+
+export function getGroupMeta(groupName: string): GroupMeta | undefined {
+  ensureLoaded();
+  const meta = groupMeta.get(groupName);
+  if (!meta && !groups.has(groupName)) return undefined;
+  return { ...meta };
+}
+
+export function setGroupMeta(groupName: string, meta: GroupMeta): boolean {
+  ensureLoaded();
+  if (!groups.has(groupName)) return false;
+  groupMeta.set(groupName, { ...meta });
+  save([groupName]);
+  return true;
+}
+
 export function getGroupMembers(groupName: string): string[] {
   ensureLoaded();
   const ids = groups.get(groupName);
@@ -99,8 +299,9 @@ export function getGroupForRecord(recordId: string): string | undefined {
 export function setRecordGroup(recordId: string, groupName: string): void {
   ensureLoaded();
 
-  for (const [, members] of groups) {
-    members.delete(recordId);
+  const changed = new Set<string>([groupName]);
+  for (const [name, members] of groups) {
+    if (members.delete(recordId)) changed.add(name);
   }
 
   let target = groups.get(groupName);
@@ -109,16 +310,19 @@ export function setRecordGroup(recordId: string, groupName: string): void {
     groups.set(groupName, target);
   }
   target.add(recordId);
-  save();
+  save(changed);
+  membershipRevision++;
 }
 
 export function clearRecordGroup(recordId: string): void {
   ensureLoaded();
-  let changed = false;
-  for (const [, members] of groups) {
-    if (members.delete(recordId)) changed = true;
+  const changed: string[] = [];
+  for (const [name, members] of groups) {
+    if (members.delete(recordId)) changed.push(name);
   }
-  if (changed) save();
+  if (changed.length === 0) return;
+  save(changed);
+  membershipRevision++;
 }
 
 export function removeRecordFromGroups(recordId: string): void {
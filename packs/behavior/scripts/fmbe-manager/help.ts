@@ -1,3 +1,6 @@
+import { EXPRESSION_FUNCTIONS } from "./expressions.ts";
+import { formatOperationTargetCodes, getOperationTypeDescriptions, GROUP_OPERATION_QUEUE_SLOTS, GROUP_OPERATION_TYPES } from "./operations.ts";
+
 export const HELP_LANGUAGE_OPTIONS = ["English", "Japanese"] as const;
 
 export const HELP_COMMAND_OPTIONS = [
@@ -8,8 +11,13 @@ export const HELP_COMMAND_OPTIONS = [
   "set_block",
   "set_item",
   "set_location",
+  "set_transform",
+  "edit",
   "clone",
+  "array",
+  "layout",
   "remove",
+  "template",
   "data",
   "group_create",
   "group_delete",
@@ -18,7 +26,22 @@ export const HELP_COMMAND_OPTIONS = [
   "group_set",
   "group_clear",
   "group_move",
+  "group_pivot",
+  "group_rotate",
+  "group_parent",
+  "group_op",
+  "blueprint",
+  "stream",
   "scoreboard",
+  "anim",
+  "bind",
+  "motion",
+  "billboard",
+  "attach",
+  "undo",
+  "redo",
+  "settings",
+  "schema",
   "help",
 ] as const;
 
@@ -27,11 +50,16 @@ type HelpLanguage = (typeof HELP_LANGUAGE_OPTIONS)[number];
 function getEnglishHelpLines(command: string): string[] {
   switch (command) {
     case "block_create":
-      return ["/fmbe:block_create block:<BlockType> preset:<2D|3D> ?location ?xOffset ?yOffset ?zOffset ?scale"];
+      return ["/fmbe:block_create block:<BlockType> preset:<2D|3D> ?location ?xOffset ?yOffset ?zOffset ?scale ?template"];
     case "item_create":
-      return ["/fmbe:item_create item:<ItemType> ?location ?xOffset ?yOffset ?zOffset ?scale"];
+      return ["/fmbe:item_create item:<ItemType> ?location ?xOffset ?yOffset ?zOffset ?scale ?template"];
     case "list":
-      return ["/fmbe:list ?preset:<Item|2D|3D>"];
+      return [
+        "/fmbe:list ?preset:<Any|Item|2D|3D> ?page:<Integer> ?pageSize:<Integer> ?sort:<id|distance|updatedAt|type> ?order:<asc|desc> ?group:<String> ?dimension:<overworld|nether|the_end> ?type:<String> ?radius:<Float> ?from:<Location> ?to:<Location> ?newerThan:<Float> ?olderThan:<Float>",
+        "from+to: records inside the box. radius: records within radius of from (or of the command origin).",
+        "type matches block or item id. newerThan/olderThan are minutes since updatedAt.",
+        "pageSize defaults to 10 (max 50). distance is measured from from or the command origin.",
+      ];
     case "set_preset":
       return ["/fmbe:set_preset preset:<Item|2D|3D> entity:<EntitySelector>"];
     case "set_block":
@@ -40,43 +68,199 @@ function getEnglishHelpLines(command: string): string[] {
       return ["/fmbe:set_item item:<ItemType> entity:<EntitySelector>"];
     case "set_location":
       return ["/fmbe:set_location location:<Location> entity:<EntitySelector>"];
+    case "set_transform":
+      return [
+        "/fmbe:set_transform entity:<EntitySelector> ?xOffset ?yOffset ?zOffset ?xRot ?yRot ?zRot ?scale ?extendScale ?extendXrot ?extendYrot ?extendZrot ?xBasePos ?yBasePos ?zBasePos",
+        "Each value is absolute (1.5) or relative to the current value (~0.5, ~-90, ~).",
+      ];
+    case "edit":
+      return [
+        "/fmbe:edit ?entity:<EntitySelector>",
+        "Opens a form editor. If entity is omitted, the last hit FMBE is used.",
+        "Sneak + interact with an FMBE also opens it. Changes are previewed before confirm.",
+      ];
     case "clone":
       return ["/fmbe:clone fromEntity:<EntitySelector> ?toEntity:<EntitySelector> ?location:<Location>"];
+    case "array":
+      return [
+        "/fmbe:array entity:<EntitySelector> pattern:<linear|grid|radial> count:<Integer> ?spacing:<x y z> ?rotationStep:<Float> ?group:<String> ?rows:<Integer> ?layers:<Integer> ?center:<Location>",
+        "count is the total including the source (grid: columns along x, rows along z, layers along y).",
+        "spacing is the step between copies (plain numbers). rotationStep adds to yRot per copy.",
+        "radial places count items on a ring around center, turning each by 360/count. Copies join group when given.",
+      ];
+    case "layout":
+      return [
+        "/fmbe:mirror axis:<x|y|z> ?entity:<EntitySelector> ?group:<String> ?point:<Location> ?radius:<Float> ?from:<Location> ?to:<Location>",
+        "/fmbe:snap_location size:<Float> ?entity:<EntitySelector> ?group:<String> ?radius:<Float> ?from:<Location> ?to:<Location>",
+        "/fmbe:snap_rotation increment:<Float> ?entity:<EntitySelector> ?group:<String> ?radius:<Float> ?from:<Location> ?to:<Location>",
+        "/fmbe:align axis:<x|y|z> mode:<min|max|center> ?entity:<EntitySelector> ?group:<String> ?radius:<Float> ?from:<Location> ?to:<Location>",
+        "/fmbe:distribute axis:<x|y|z> ?entity:<EntitySelector> ?group:<String> ?radius:<Float> ?from:<Location> ?to:<Location>",
+        "Targets are the selected FMBE, all members of group (including child groups), or the records in an area (radius or from + to).",
+        "mirror flips positions across the plane through point (default: centroid) and the matching rotation signs.",
+        "snap_location rounds locations to size (1 = block grid, 0.5 = half grid); snap_rotation rounds rotations to increment degrees.",
+        "align moves all to the min/max/center on axis; distribute spaces them evenly between the outermost two.",
+      ];
     case "remove":
       return ["/fmbe:remove entity:<EntitySelector>"];
+    case "template":
+      return [
+        "/fmbe:template_save name:<String> entity:<EntitySelector>",
+        "/fmbe:template_list",
+        "/fmbe:template_delete name:<String>",
+        "/fmbe:template_create name:<String> ?location:<Location>",
+        "/fmbe:template_apply name:<String> entity:<EntitySelector>",
+        "Templates store preset, type id and transform. create_block/create_item accept ?template; explicit values win.",
+        "template_apply copies only the transform.",
+      ];
     case "data":
       return [
         "/fmbe:data content:<cleanup|fix|validate|info> ?entity:<EntitySelector>",
         "content:info works like old get. If entity is omitted, run then hit an FMBE.",
+        "Streamed records without an entity are kept by cleanup and not respawned by fix/validate.",
       ];
     case "group_create":
       return ["/fmbe:group_create group:<String>"];
     case "group_delete":
       return ["/fmbe:group_delete group:<String>"];
     case "group_list":
-      return ["/fmbe:group_list ?group:<String>"];
+      return ["/fmbe:group_list ?group:<String>", "Without group, shows all groups as an indented tree."];
     case "group_info":
       return ["/fmbe:group_info group:<String>"];
     case "group_set":
-      return ["/fmbe:group_set group:<String> entity:<EntitySelector>"];
+      return ["/fmbe:group_set group:<String> ?entity:<EntitySelector> ?radius:<Float> ?from:<Location> ?to:<Location>"];
     case "group_clear":
       return ["/fmbe:group_clear entity:<EntitySelector>"];
     case "group_move":
       return ["/fmbe:group_move entity:<EntitySelector> toGroup:<String>"];
+    case "group_pivot":
+      return [
+        "/fmbe:group_pivot group:<String> ?location:<Location>",
+        "Sets the rotation pivot. Omit location to use the member centroid (default).",
+      ];
+    case "group_rotate":
+      return [
+        "/fmbe:group_rotate group:<String> degrees:<Float>",
+        "Orbits member positions around the pivot and adds degrees to each member's yRot.",
+      ];
+    case "group_parent":
+      return [
+        "/fmbe:group_set_parent group:<String> parent:<String>",
+        "/fmbe:group_clear_parent group:<String>",
+        "Child groups follow every transform, rotation and relative operation applied to their ancestors.",
+        "Deleting a group moves its child groups up to its own parent.",
+      ];
+    case "group_op":
+      return [
+        `/fmbe:group_op group:<String> target:<Target> type:<${GROUP_OPERATION_TYPES.join("|")}> value:<Float> ?alpha:<Float>`,
+        "Applies a relative operation to every member (including child groups) and reports the updated count.",
+        "Targets match OpTarget (xOffset ... zBasePos, x, y, z, rotate). Results are clamped like other edits.",
+      ];
+    case "blueprint":
+      return [
+        "/fmbe:blueprint_save name:<String> group:<String> ?origin:<Location>",
+        "/fmbe:blueprint_list",
+        "/fmbe:blueprint_delete name:<String>",
+        "/fmbe:blueprint_paste name:<String> group:<String> location:<Location> ?rotation:<Integer> ?mirror:<x|y|z>",
+        "Saves every group member relative to origin (default: block at the group centroid).",
+        "Paste spawns the members into a new group. rotation is a multiple of 90 (yaw); mirror flips positions and rotations on the given axis (same rules as /fmbe:mirror).",
+      ];
+    case "stream":
+      return [
+        "/fmbe:set_stream radius:<Float> entity:<EntitySelector>",
+        "/fmbe:group_stream group:<String> radius:<Float>",
+        "Streamed FMBE are spawned only while a player is within radius and removed (record kept) when nobody is near.",
+        "set_stream: 0 keeps the entity always spawned, negative inherits the group radius. group_stream: 0 or less disables.",
+      ];
     case "scoreboard":
       return [
         "Group shared values (dummy participant): fmbe:group:<groupName>",
         "Objectives (absolute): fmbe:group:xOffset, yOffset, zOffset, gxRot, gyRot, gzRot, gscl, gExtendScale, gExtendXrot, gExtendYrot, gExtendZrot, gxBasePos, gyBasePos, gzBasePos, LocationX, LocationY, LocationZ, Preset",
         "Value scale: floats are stored x1000 (e.g. 1.5 -> 1500)",
+        "These are the group-level transform: Location is the group origin, values are added to (scales multiply) each member's own values.",
         "Relative operation objectives: fmbe:group:OpTarget, fmbe:group:OpType, fmbe:group:OpValue, fmbe:group:OpSeq",
-        "OpTarget: 1:xOffset 2:yOffset 3:zOffset 4:xRot 5:yRot 6:zRot 7:scale 8:extendScale 9:extendXrot 10:extendYrot 11:extendZrot 12:xBasePos 13:yBasePos 14:zBasePos 15:x 16:y 17:z",
-        "OpType: 1:add 2:sub 3:mul 4:div",
+        `OpTarget: ${formatOperationTargetCodes()}`,
+        "OpType:",
+        ...getOperationTypeDescriptions("en"),
+        "lerp reads alpha from fmbe:group:OpAlpha (x1000); OpTarget 18 rotates the group around its pivot by OpValue degrees (add/sub only).",
+        `Queue: participants fmbe:group:<groupName>#1..#${GROUP_OPERATION_QUEUE_SLOTS} are extra slots with the same objectives; every slot whose OpSeq changed is applied in slot order after the main participant.`,
         "Apply relative op example (+0.5 xOffset for group teamA):",
         "scoreboard players set fmbe:group:teamA fmbe:group:OpTarget 1",
         "scoreboard players set fmbe:group:teamA fmbe:group:OpType 1",
         "scoreboard players set fmbe:group:teamA fmbe:group:OpValue 500",
         "scoreboard players add fmbe:group:teamA fmbe:group:OpSeq 1",
         "Note: reflected only when OpSeq changes.",
+        "Same without scoreboards: /fmbe:group_op group:teamA target:xOffset type:add value:0.5",
+        "Per-entity ops: fmbe:OpTarget, fmbe:OpType, fmbe:OpValue, fmbe:OpAlpha, fmbe:OpSeq on the FMBE entity itself (same codes, rotate turns yRot in place, add/sub only).",
+        "scoreboard players add @e[tag=fmbe,c=1] fmbe:OpSeq 1",
+      ];
+    case "anim":
+      return [
+        "/fmbe:anim_create name:<String> mode:<once|loop|pingpong> ?entity:<EntitySelector> ?group:<String>",
+        "/fmbe:anim_key name:<String> field:<Field> tick:<Integer> value:<Float> ?easing:<linear|easeIn|easeOut|easeInOut|step>",
+        "/fmbe:anim_play|anim_pause|anim_stop|anim_delete name:<String>",
+        "/fmbe:anim_seek name:<String> tick:<Integer>",
+        "/fmbe:anim_list ?name:<String>",
+        "field: transform fields or x/y/z. Values are absolute; easing applies to the segment after the keyframe.",
+        "anim_stop rewinds to tick 0.",
+      ];
+    case "bind":
+      return [
+        '/fmbe:bind_add name:<String> field:<Field> expression:"<expr>" ?entity:<EntitySelector> ?group:<String>',
+        "/fmbe:bind_list",
+        "/fmbe:bind_remove name:<String>",
+        "The expression is evaluated every tick and written to the field (clamped like other edits).",
+        "Operators: + - * / % ^ and parentheses. Variables: tick, time (seconds), pi.",
+        `Functions: ${EXPRESSION_FUNCTIONS.join(", ")} (sin/cos take degrees), score(objective, participant).`,
+        "score() reads raw scores; participant @s is the bound FMBE (or the group participant), missing scores read as 0.",
+        'Example: /fmbe:bind_add needle zRot "clamp(score(kills, Steve) * 10, 0, 180)" @e[tag=fmbe,c=1]',
+        "Group bindings drive the group-level transform (LocationX/Y/Z for x/y/z).",
+      ];
+    case "motion":
+      return [
+        "/fmbe:motion_spin field:<xRot|yRot|zRot|extendXrot|extendYrot|extendZrot> period:<Float> entity:<EntitySelector> ?phase:<Float>",
+        "/fmbe:motion_bob field:<xOffset|yOffset|zOffset> amplitude:<Float> period:<Float> entity:<EntitySelector> ?phase:<Float>",
+        "/fmbe:motion_orbit radius:<Float> period:<Float> entity:<EntitySelector> ?phase:<Float> ?center:<x y z>",
+        "/fmbe:motion_clear entity:<EntitySelector> ?kind:<spin|bob|orbit>",
+        "/fmbe:motion_list entity:<EntitySelector>",
+        "period is ticks per cycle (negative reverses spin/orbit); phase is in degrees.",
+        "orbit circles the xz plane around center (default: the FMBE's own location).",
+        "Motion is only rendered; the stored record keeps the authored pose.",
+      ];
+    case "billboard":
+      return [
+        "/fmbe:billboard mode:<off|yaw|full> entity:<EntitySelector> ?player:<String>",
+        "/fmbe:group_billboard group:<String> mode:<off|yaw|full> ?player:<String>",
+        "yaw turns yRot toward the nearest player (or the named player); full also turns xRot for pitch.",
+        "Stored yRot/xRot act as offsets and the record is not modified. Members without their own mode inherit the group's (or an ancestor's).",
+        "Update rate: /fmbe:settings billboardIntervalTicks <ticks>",
+      ];
+    case "attach":
+      return [
+        "/fmbe:attach entity:<EntitySelector> target:<EntitySelector> ?offset:<x y z> ?inheritYaw:<Boolean>",
+        "/fmbe:detach entity:<EntitySelector>",
+        "The FMBE follows target every tick. offset is in the target's local space (x: left, y: up, z: forward); use plain numbers, not ~.",
+        "inheritYaw adds the target's yaw to the rendered yRot. The stored location is kept and restored by detach.",
+      ];
+    case "undo":
+      return [
+        "/fmbe:undo ?count:<Integer> ?journal:<self|shared>",
+        "Undoes your last changes. journal:shared covers command blocks and group scoreboard operations.",
+      ];
+    case "redo":
+      return ["/fmbe:redo ?count:<Integer> ?journal:<self|shared>"];
+    case "settings":
+      return [
+        "/fmbe:settings ?key:<Enum> ?value:<Float>",
+        "historyDepth: max undo entries kept per journal (0 disables history)",
+        "tickBudgetMs: per-tick time budget for record polling in milliseconds",
+        "billboardIntervalTicks: ticks between billboard facing updates",
+      ];
+    case "schema":
+      return [
+        "/fmbe:schema action:<info|rollback|unpin> ?key:<Enum>",
+        "info: stored/latest schema version, backup and pin per key",
+        "rollback: restore the payload saved before the last migration and pin the key. Storage is read-only until reload.",
+        "unpin: let migrations for a rolled-back key run again on the next world load",
       ];
     case "help":
       return [
@@ -91,11 +275,17 @@ function getEnglishHelpLines(command: string): string[] {
 function getJapaneseHelpLines(command: string): string[] {
   switch (command) {
     case "block_create":
-      return ["/fmbe:block_create block:<BlockType> preset:<2D|3D> ?location ?xOffset ?yOffset ?zOffset ?scale", "FMBEブロックを作成します"];
+      return ["/fmbe:block_create block:<BlockType> preset:<2D|3D> ?location ?xOffset ?yOffset ?zOffset ?scale ?template", "FMBEブロックを作成します"];
     case "item_create":
-      return ["/fmbe:item_create item:<ItemType> ?location ?xOffset ?yOffset ?zOffset ?scale", "FMBEアイテムを作成します"];
+      return ["/fmbe:item_create item:<ItemType> ?location ?xOffset ?yOffset ?zOffset ?scale ?template", "FMBEアイテムを作成します"];
     case "list":
-      return ["/fmbe:list ?preset:<Item|2D|3D>", "FMBE一覧を表示します"];
+      return [
+        "/fmbe:list ?preset:<Any|Item|2D|3D> ?page:<Integer> ?pageSize:<Integer> ?sort:<id|distance|updatedAt|type> ?order:<asc|desc> ?group:<String> ?dimension:<overworld|nether|the_end> ?type:<String> ?radius:<Float> ?from:<Location> ?to:<Location> ?newerThan:<Float> ?olderThan:<Float>",
+        "FMBE一覧を表示します",
+        "from+to で範囲内、radius で from（省略時は実行位置）からの半径内のレコードに絞り込みます",
+        "type はブロック/アイテムIDで一致。newerThan/olderThan は updatedAt からの経過分数です",
+        "pageSize の既定は 10（最大 50）。distance は from または実行位置からの距離です",
+      ];
     case "set_preset":
       return ["/fmbe:set_preset preset:<Item|2D|3D> entity:<EntitySelector>", "対象FMBEのPresetを変更します"];
     case "set_block":
@@ -104,44 +294,202 @@ function getJapaneseHelpLines(command: string): string[] {
       return ["/fmbe:set_item item:<ItemType> entity:<EntitySelector>", "対象FMBEのItemを変更します"];
     case "set_location":
       return ["/fmbe:set_location location:<Location> entity:<EntitySelector>", "対象FMBEの位置を変更します"];
+    case "set_transform":
+      return [
+        "/fmbe:set_transform entity:<EntitySelector> ?xOffset ?yOffset ?zOffset ?xRot ?yRot ?zRot ?scale ?extendScale ?extendXrot ?extendYrot ?extendZrot ?xBasePos ?yBasePos ?zBasePos",
+        "対象FMBEの transform を変更します",
+        "値は絶対値（1.5）または現在値からの相対値（~0.5、~-90、~）で指定します",
+      ];
+    case "edit":
+      return [
+        "/fmbe:edit ?entity:<EntitySelector>",
+        "フォームでFMBEを編集します（entity省略時は最後に殴ったFMBE）",
+        "スニークしながらFMBEを右クリックしても開きます。確定前にプレビューされます",
+      ];
     case "clone":
       return ["/fmbe:clone fromEntity:<EntitySelector> ?toEntity:<EntitySelector> ?location:<Location>", "FMBEを複製します"];
+    case "array":
+      return [
+        "/fmbe:array entity:<EntitySelector> pattern:<linear|grid|radial> count:<Integer> ?spacing:<x y z> ?rotationStep:<Float> ?group:<String> ?rows:<Integer> ?layers:<Integer> ?center:<Location>",
+        "count は元の FMBE を含む総数です（grid: x 方向の列数、rows は z 方向、layers は y 方向）",
+        "spacing は複製間の間隔（数値で指定）、rotationStep は 1 つごとに yRot に加算する角度です",
+        "radial は center の周りの円周上に count 個を配置し、それぞれ 360/count ずつ回転させます。group 指定時は複製をそのグループに追加します",
+      ];
+    case "layout":
+      return [
+        "/fmbe:mirror axis:<x|y|z> ?entity:<EntitySelector> ?group:<String> ?point:<Location> ?radius:<Float> ?from:<Location> ?to:<Location>",
+        "/fmbe:snap_location size:<Float> ?entity:<EntitySelector> ?group:<String> ?radius:<Float> ?from:<Location> ?to:<Location>",
+        "/fmbe:snap_rotation increment:<Float> ?entity:<EntitySelector> ?group:<String> ?radius:<Float> ?from:<Location> ?to:<Location>",
+        "/fmbe:align axis:<x|y|z> mode:<min|max|center> ?entity:<EntitySelector> ?group:<String> ?radius:<Float> ?from:<Location> ?to:<Location>",
+        "/fmbe:distribute axis:<x|y|z> ?entity:<EntitySelector> ?group:<String> ?radius:<Float> ?from:<Location> ?to:<Location>",
+        "対象は選択した FMBE、group の全メンバー（子グループを含む）、または範囲内のレコード（radius または from + to）です",
+        "mirror は point（省略時は重心）を通る平面で位置を反転し、対応する回転の符号も反転します",
+        "snap_location は位置を size 単位に丸め（1 = ブロック、0.5 = 半ブロック）、snap_rotation は回転を increment 度単位に丸めます",
+        "align は axis 上の min/max/center に揃え、distribute は両端の間に等間隔で並べます",
+      ];
     case "remove":
       return ["/fmbe:remove entity:<EntitySelector>", "対象FMBEを削除します"];
+    case "template":
+      return [
+        "/fmbe:template_save name:<String> entity:<EntitySelector>",
+        "/fmbe:template_list",
+        "/fmbe:template_delete name:<String>",
+        "/fmbe:template_create name:<String> ?location:<Location>",
+        "/fmbe:template_apply name:<String> entity:<EntitySelector>",
+        "テンプレートは preset・タイプID・transform を保存します。create_block/create_item の ?template でも使用でき、明示した値が優先されます",
+        "template_apply は transform のみを適用します",
+      ];
     case "data":
       return [
         "/fmbe:data content:<cleanup|fix|validate|info> ?entity:<EntitySelector>",
         "データ整合性を処理します",
         "content=info は旧getと同じ挙動です（entity省略時は実行後に最初に殴ったFMBEを表示）",
+        "ストリーミング対象でエンティティが無いレコードは cleanup で削除されず、fix/validate でも再召喚されません",
       ];
     case "group_create":
       return ["/fmbe:group_create group:<String>", "グループを作成します"];
     case "group_delete":
       return ["/fmbe:group_delete group:<String>", "グループを削除します"];
     case "group_list":
-      return ["/fmbe:group_list ?group:<String>", "グループ一覧またはメンバー一覧を表示します"];
+      return ["/fmbe:group_list ?group:<String>", "グループ一覧（親子関係をインデント表示）またはメンバー一覧を表示します"];
     case "group_info":
       return ["/fmbe:group_info group:<String>", "グループ詳細を表示します"];
     case "group_set":
-      return ["/fmbe:group_set group:<String> entity:<EntitySelector>", "FMBEをグループに所属させます"];
+      return ["/fmbe:group_set group:<String> ?entity:<EntitySelector> ?radius:<Float> ?from:<Location> ?to:<Location>", "FMBEをグループに所属させます"];
     case "group_clear":
       return ["/fmbe:group_clear entity:<EntitySelector>", "FMBEのグループ所属を解除します"];
     case "group_move":
       return ["/fmbe:group_move entity:<EntitySelector> toGroup:<String>", "FMBEを別グループへ移動します"];
+    case "group_pivot":
+      return [
+        "/fmbe:group_pivot group:<String> ?location:<Location>",
+        "回転の中心を設定します。location 省略時はメンバーの重心（既定）に戻します",
+      ];
+    case "group_rotate":
+      return [
+        "/fmbe:group_rotate group:<String> degrees:<Float>",
+        "メンバー位置を中心の周りに回転させ、各メンバーの yRot に degrees を加算します",
+      ];
+    case "group_parent":
+      return [
+        "/fmbe:group_set_parent group:<String> parent:<String>",
+        "/fmbe:group_clear_parent group:<String>",
+        "子グループは祖先グループの変換・回転・相対演算をすべて引き継ぎます",
+        "グループを削除すると、その子グループは削除したグループの親に付け替えられます",
+      ];
+    case "group_op":
+      return [
+        `/fmbe:group_op group:<String> target:<Target> type:<${GROUP_OPERATION_TYPES.join("|")}> value:<Float> ?alpha:<Float>`,
+        "全メンバー（子グループを含む）に相対演算を適用し、更新件数を表示します",
+        "target は OpTarget と同じ（xOffset ... zBasePos, x, y, z, rotate）。結果は通常の編集と同様に範囲内に丸められます",
+      ];
+    case "blueprint":
+      return [
+        "/fmbe:blueprint_save name:<String> group:<String> ?origin:<Location>",
+        "/fmbe:blueprint_list",
+        "/fmbe:blueprint_delete name:<String>",
+        "/fmbe:blueprint_paste name:<String> group:<String> location:<Location> ?rotation:<Integer> ?mirror:<x|y|z>",
+        "グループの全メンバーを origin（省略時は重心のブロック位置）からの相対位置で保存します",
+        "paste は新しいグループにメンバーを召喚します。rotation は 90 の倍数（yaw）、mirror は指定軸で位置と回転を反転します（/fmbe:mirror と同じ規則）",
+      ];
+    case "stream":
+      return [
+        "/fmbe:set_stream radius:<Float> entity:<EntitySelector>",
+        "/fmbe:group_stream group:<String> radius:<Float>",
+        "プレイヤーが半径内にいる間だけエンティティを召喚し、誰もいなくなるとレコードを残して削除します",
+        "set_stream: 0 で常時召喚、負の値でグループの半径を継承。group_stream: 0 以下で無効",
+      ];
     case "scoreboard":
       return [
         "グループ共有値のparticipant: fmbe:group:<groupName>",
         "絶対値objective: fmbe:group:xOffset, yOffset, zOffset, gxRot, gyRot, gzRot, gscl, gExtendScale, gExtendXrot, gExtendYrot, gExtendZrot, gxBasePos, gyBasePos, gzBasePos, LocationX, LocationY, LocationZ, Preset",
         "値スケール: 小数は1000倍で保存（例 1.5 -> 1500）",
+        "これらはグループ全体の transform です。Location はグループ原点で、値は各メンバー自身の値に加算（スケールは乗算）されます",
         "相対演算objective: fmbe:group:OpTarget, fmbe:group:OpType, fmbe:group:OpValue, fmbe:group:OpSeq",
-        "OpTarget: 1:xOffset 2:yOffset 3:zOffset 4:xRot 5:yRot 6:zRot 7:scale 8:extendScale 9:extendXrot 10:extendYrot 11:extendZrot 12:xBasePos 13:yBasePos 14:zBasePos 15:x 16:y 17:z",
-        "OpType: 1:add 2:sub 3:mul 4:div",
+        `OpTarget: ${formatOperationTargetCodes()}`,
+        "OpType:",
+        ...getOperationTypeDescriptions("ja"),
+        "lerp の alpha は fmbe:group:OpAlpha（x1000）から読み取ります。OpTarget 18 はグループを中心の周りに OpValue 度回転します（add/sub のみ）",
+        `キュー: participant fmbe:group:<groupName>#1〜#${GROUP_OPERATION_QUEUE_SLOTS} は同じ objective を持つ追加スロットです。OpSeq が変化したスロットはメイン participant の後にスロット順ですべて適用されます`,
         "相対演算例（group teamA の xOffset を +0.5）:",
         "scoreboard players set fmbe:group:teamA fmbe:group:OpTarget 1",
         "scoreboard players set fmbe:group:teamA fmbe:group:OpType 1",
         "scoreboard players set fmbe:group:teamA fmbe:group:OpValue 500",
         "scoreboard players add fmbe:group:teamA fmbe:group:OpSeq 1",
         "反映は OpSeq が変化した時のみです",
+        "スコアボードを使わない場合: /fmbe:group_op group:teamA target:xOffset type:add value:0.5",
+        "エンティティ単位: FMBE エンティティ自身の fmbe:OpTarget, fmbe:OpType, fmbe:OpValue, fmbe:OpAlpha, fmbe:OpSeq（コードは共通、rotate はその場で yRot を回転、add / sub のみ）",
+        "scoreboard players add @e[tag=fmbe,c=1] fmbe:OpSeq 1",
+      ];
+    case "anim":
+      return [
+        "/fmbe:anim_create name:<String> mode:<once|loop|pingpong> ?entity:<EntitySelector> ?group:<String>",
+        "/fmbe:anim_key name:<String> field:<Field> tick:<Integer> value:<Float> ?easing:<linear|easeIn|easeOut|easeInOut|step>",
+        "/fmbe:anim_play|anim_pause|anim_stop|anim_delete name:<String>",
+        "/fmbe:anim_seek name:<String> tick:<Integer>",
+        "/fmbe:anim_list ?name:<String>",
+        "キーフレームアニメーションを作成・再生します",
+        "field は transform の各項目または x/y/z。値は絶対値で、easing はそのキーフレーム以降の区間に適用されます",
+        "anim_stop は tick 0 に巻き戻します",
+      ];
+    case "bind":
+      return [
+        '/fmbe:bind_add name:<String> field:<Field> expression:"<式>" ?entity:<EntitySelector> ?group:<String>',
+        "/fmbe:bind_list",
+        "/fmbe:bind_remove name:<String>",
+        "式は毎 tick 評価され、field に書き込まれます（通常の編集と同様に範囲内に丸められます）",
+        "演算子: + - * / % ^ と括弧。変数: tick, time（秒）, pi",
+        `関数: ${EXPRESSION_FUNCTIONS.join(", ")}（sin/cos は度数）, score(objective, participant)`,
+        "score() は生のスコアを読みます。participant @s はバインド先の FMBE（グループの場合はグループ participant）、スコアが無い場合は 0 です",
+        '例: /fmbe:bind_add needle zRot "clamp(score(kills, Steve) * 10, 0, 180)" @e[tag=fmbe,c=1]',
+        "グループへのバインドはグループ全体の transform を動かします（x/y/z は LocationX/Y/Z）",
+      ];
+    case "motion":
+      return [
+        "/fmbe:motion_spin field:<xRot|yRot|zRot|extendXrot|extendYrot|extendZrot> period:<Float> entity:<EntitySelector> ?phase:<Float>",
+        "/fmbe:motion_bob field:<xOffset|yOffset|zOffset> amplitude:<Float> period:<Float> entity:<EntitySelector> ?phase:<Float>",
+        "/fmbe:motion_orbit radius:<Float> period:<Float> entity:<EntitySelector> ?phase:<Float> ?center:<x y z>",
+        "/fmbe:motion_clear entity:<EntitySelector> ?kind:<spin|bob|orbit>",
+        "/fmbe:motion_list entity:<EntitySelector>",
+        "period は 1 周期の tick 数（負の値で spin/orbit が逆回転）、phase は度数です",
+        "orbit は center（省略時は FMBE 自身の位置）の周りを xz 平面で周回します",
+        "モーションは表示のみに適用され、レコードには元の姿勢が保持されます",
+      ];
+    case "billboard":
+      return [
+        "/fmbe:billboard mode:<off|yaw|full> entity:<EntitySelector> ?player:<String>",
+        "/fmbe:group_billboard group:<String> mode:<off|yaw|full> ?player:<String>",
+        "yaw は yRot を最寄りのプレイヤー（または指定プレイヤー）に向けます。full は xRot で上下の向きも合わせます",
+        "保存された yRot/xRot はオフセットとして加算され、レコードは変更されません。個別の設定が無いメンバーはグループ（または祖先グループ）の設定を継承します",
+        "更新間隔: /fmbe:settings billboardIntervalTicks <ticks>",
+      ];
+    case "attach":
+      return [
+        "/fmbe:attach entity:<EntitySelector> target:<EntitySelector> ?offset:<x y z> ?inheritYaw:<Boolean>",
+        "/fmbe:detach entity:<EntitySelector>",
+        "FMBE は毎 tick target に追従します。offset は target のローカル座標（x: 左, y: 上, z: 前）で、~ を使わず数値で指定します",
+        "inheritYaw を true にすると target の向き（yaw）を表示上の yRot に加算します。保存された位置は保持され、detach で戻ります",
+      ];
+    case "undo":
+      return [
+        "/fmbe:undo ?count:<Integer> ?journal:<self|shared>",
+        "直前の変更を取り消します。journal:shared はコマンドブロックと group scoreboard 操作の履歴です",
+      ];
+    case "redo":
+      return ["/fmbe:redo ?count:<Integer> ?journal:<self|shared>", "取り消した変更をやり直します"];
+    case "settings":
+      return [
+        "/fmbe:settings ?key:<Enum> ?value:<Float>",
+        "historyDepth: 履歴ごとに保持する undo 件数（0 で履歴無効）",
+        "tickBudgetMs: 1 tick あたりのレコード監視に使う時間（ミリ秒）",
+        "billboardIntervalTicks: ビルボードの向きを更新する間隔（tick）",
+      ];
+    case "schema":
+      return [
+        "/fmbe:schema action:<info|rollback|unpin> ?key:<Enum>",
+        "info: キーごとの保存バージョン/最新バージョン、バックアップ、固定状態を表示します",
+        "rollback: 直前のマイグレーション前のデータを復元し、キーを固定します。再読み込みまで保存は停止します",
+        "unpin: ロールバックしたキーの固定を解除し、次回のワールド読み込みでマイグレーションを再実行します",
       ];
     case "help":
       return [
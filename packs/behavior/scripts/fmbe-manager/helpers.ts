@@ -1,7 +1,15 @@
-import { Player, world, type CustomCommandOrigin } from "@minecraft/server";
+import { Player, world, type CustomCommandOrigin, type Vector3 } from "@minecraft/server";
 import { MinecraftDimensionTypes } from "@minecraft/vanilla-data";
 import { type FmbeRenderVariables } from "../lib/fmbe-lib/index.ts";
-import { type FmbeListPreset, type FmbePreset, type FmbeRecord, type StoredTransform } from "./types.ts";
+import {
+  type Attachment,
+  type Billboard,
+  type FmbeListPreset,
+  type FmbePreset,
+  type FmbeRecord,
+  type RecordField,
+  type StoredTransform,
+} from "./types.ts";
 
 export const ADDON_NAME = "fmbe-manager";
 
@@ -82,6 +90,80 @@ export function normalizeTransform(transform: StoredTransform): StoredTransform
   return next;
 }
 
+export const RECORD_FIELDS: readonly RecordField[] = [
+  "xOffset",
+  "yOffset",
+  "zOffset",
+  "xRot",
+  "yRot",
+  "zRot",
+  "scale",
+  "extendScale",
+  "extendXrot",
+  "extendYrot",
+  "extendZrot",
+  "xBasePos",
+  "yBasePos",
+  "zBasePos",
+  "x",
+  "y",
+  "z",
+];
+
+const DEFAULT_FIELD_VALUES: Record<keyof StoredTransform, number> = {
+  xOffset: 0,
+  yOffset: 0,
+  zOffset: 0,
+  xRot: 0,
+  yRot: 0,
+  zRot: 0,
+  scale: 1,
+  extendScale: 1,
+  extendXrot: -90,
+  extendYrot: 0,
+  extendZrot: 0,
+  xBasePos: 0,
+  yBasePos: 0,
+  zBasePos: 0,
+};
+
+export const TRANSFORM_KEYS = Object.keys(DEFAULT_FIELD_VALUES) as Array<keyof StoredTransform>;
+
+export const ROTATION_KEYS: ReadonlyArray<keyof StoredTransform> = [
+  "xRot",
+  "yRot",
+  "zRot",
+  "extendXrot",
+  "extendYrot",
+  "extendZrot",
+];
+
+export function parseRelativeValue(input: string, current: number): number {
+  const text = input.trim();
+  const relative = text.startsWith("~");
+  const body = relative ? text.slice(1) : text;
+  const value = body.length === 0 && relative ? 0 : Number(body);
+  if (body.length === 0 && !relative) throw new Error("value must not be empty.");
+  if (!Number.isFinite(value)) throw new Error(`invalid value: ${input}`);
+  return relative ? current + value : value;
+}
+
+export function isRecordField(value: string): value is RecordField {
+  return (RECORD_FIELDS as readonly string[]).includes(value);
+}
+
+export function getRecordField(record: FmbeRecord, field: RecordField): number {
+  if (field === "x" || field === "y" || field === "z") return record[field];
+  return record.transform[field] ?? DEFAULT_FIELD_VALUES[field];
+}
+
+export function setRecordField(record: FmbeRecord, field: RecordField, value: number): FmbeRecord {
+  if (field === "x" || field === "y" || field === "z") {
+    return { ...record, [field]: value };
+  }
+  return { ...record, transform: normalizeTransform({ ...record.transform, [field]: value }) };
+}
+
 export function toTransform(input: {
   xOffset?: unknown;
   yOffset?: unknown;
@@ -116,6 +198,25 @@ export function toTransform(input: {
   });
 }
 
+export function toBillboard(value: unknown): Billboard | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const row = value as Record<string, unknown>;
+  if (row.mode !== "yaw" && row.mode !== "full") return undefined;
+  return typeof row.player === "string" && row.player.length > 0 ? { mode: row.mode, player: row.player } : { mode: row.mode };
+}
+
+export function toAttachment(value: unknown): Attachment | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const row = value as Record<string, unknown>;
+  if (typeof row.targetId !== "string" || row.targetId.length === 0) return undefined;
+  const offset = (row.offset ?? {}) as Record<string, unknown>;
+  return {
+    targetId: row.targetId,
+    offset: { x: asNumber(offset.x) ?? 0, y: asNumber(offset.y) ?? 0, z: asNumber(offset.z) ?? 0 },
+    inheritYaw: row.inheritYaw === true,
+  };
+}
+
 export function transformToRenderVariables(transform: StoredTransform): FmbeRenderVariables {
   return {
     xpos: transform.xOffset,
@@ -199,6 +300,14 @@ export function getOriginPlayer(origin: CustomCommandOrigin): Player | undefined
   return undefined;
 }
 
+export function getOriginDimensionId(origin: CustomCommandOrigin): string {
+  return origin.sourceEntity?.dimension.id ?? origin.sourceBlock?.dimension.id ?? MinecraftDimensionTypes.Overworld;
+}
+
+export function getOriginLocation(origin: CustomCommandOrigin): Vector3 | undefined {
+  return origin.sourceEntity?.location ?? origin.sourceBlock?.location;
+}
+
 export function sendToOrigin(origin: CustomCommandOrigin, message: string): void {
   const prefix = "§8[§bFMBE§8]§r";
   const normalized = message.replace(/^((§[0-9a-fk-or])*)\[FMBE\]\s*/i, "$1");
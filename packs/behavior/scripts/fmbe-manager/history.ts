@@ -0,0 +1,200 @@
+import { world, type CustomCommandOrigin } from "@minecraft/server";
+import { getRecordById, removeRecordById, upsertRecord } from "./db.ts";
+import { applyRecordToEntity, findEntityByFmbeId, removeManagedEntity, spawnFromRecord } from "./entities.ts";
+import {
+  clearRecordGroup,
+  createGroup,
+  deleteGroup,
+  getGroupForRecord,
+  getGroupMeta,
+  removeRecordFromGroups,
+  setGroupMeta,
+  setRecordGroup,
+} from "./groups.ts";
+import { getOriginPlayer, now } from "./helpers.ts";
+import { getSetting } from "./settings.ts";
+import { type FmbeRecord, type GroupMeta } from "./types.ts";
+
+export const SHARED_JOURNAL = "shared";
+
+interface RecordSnapshot {
+  record: FmbeRecord | undefined;
+  group: string | undefined;
+}
+
+interface HistoryChange {
+  id: string;
+  before: RecordSnapshot;
+  after: RecordSnapshot;
+}
+
+interface GroupChange {
+  groupName: string;
+  before: GroupMeta | undefined;
+  after: GroupMeta | undefined;
+}
+
+interface HistoryEntry {
+  label: string;
+  changes: HistoryChange[];
+  groups: GroupChange[];
+}
+
+interface Journal {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+export interface HistoryRecorder {
+  capture(id: string): void;
+  captureGroup(groupName: string): void;
+  commit(): number;
+}
+
+const journals = new Map<string, Journal>();
+
+function getJournal(owner: string): Journal {
+  let journal = journals.get(owner);
+  if (!journal) {
+    journal = { undo: [], redo: [] };
+    journals.set(owner, journal);
+  }
+  return journal;
+}
+
+function takeSnapshot(id: string): RecordSnapshot {
+  return { record: getRecordById(id), group: getGroupForRecord(id) };
+}
+
+function snapshotKey(snapshot: RecordSnapshot): string {
+  if (!snapshot.record) return `-|${snapshot.group ?? ""}`;
+  const { updatedAt: _updatedAt, ...rest } = snapshot.record;
+  return `${JSON.stringify(rest)}|${snapshot.group ?? ""}`;
+}
+
+function trim(entries: HistoryEntry[]): void {
+  const depth = getSetting("historyDepth");
+  while (entries.length > depth) entries.shift();
+}
+
+function restoreSnapshot(id: string, snapshot: RecordSnapshot): void {
+  const entity = findEntityByFmbeId(id);
+
+  if (!snapshot.record) {
+    removeRecordFromGroups(id);
+    removeRecordById(id);
+    if (entity) removeManagedEntity(entity);
+    return;
+  }
+
+  const record: FmbeRecord = { ...snapshot.record, updatedAt: now() };
+  upsertRecord(record);
+  if (snapshot.group) {
+    setRecordGroup(id, snapshot.group);
+  } else {
+    clearRecordGroup(id);
+  }
+
+  if (!entity) {
+    spawnFromRecord(record);
+    return;
+  }
+  entity.teleport({ x: record.x, y: record.y, z: record.z }, { dimension: world.getDimension(record.dimensionId) });
+  applyRecordToEntity(entity, record);
+}
+
+function restoreGroupSnapshot(groupName: string, meta: GroupMeta | undefined): void {
+  if (!meta) {
+    deleteGroup(groupName);
+    return;
+  }
+  createGroup(groupName);
+  setGroupMeta(groupName, meta);
+}
+
+function applyEntry(entry: HistoryEntry, side: "before" | "after"): void {
+  const changes = side === "before" ? [...entry.changes].reverse() : entry.changes;
+  for (const change of entry.groups) {
+    if (change[side]) restoreGroupSnapshot(change.groupName, change[side]);
+  }
+  for (const change of changes) restoreSnapshot(change.id, change[side]);
+  for (const change of entry.groups) {
+    if (!change[side]) restoreGroupSnapshot(change.groupName, undefined);
+  }
+}
+
+export function getJournalOwner(origin: CustomCommandOrigin): string {
+  return getOriginPlayer(origin)?.id ?? SHARED_JOURNAL;
+}
+
+export function beginHistory(owner: string, label: string): HistoryRecorder {
+  const before = new Map<string, RecordSnapshot>();
+  const groupsBefore = new Map<string, GroupMeta | undefined>();
+
+  return {
+    capture(id: string): void {
+      if (before.has(id)) return;
+      before.set(id, takeSnapshot(id));
+    },
+    captureGroup(groupName: string): void {
+      if (groupsBefore.has(groupName)) return;
+      groupsBefore.set(groupName, getGroupMeta(groupName));
+    },
+    commit(): number {
+      const changes: HistoryChange[] = [];
+      for (const [id, snapshot] of before) {
+        const after = takeSnapshot(id);
+        if (snapshotKey(snapshot) === snapshotKey(after)) continue;
+        changes.push({ id, before: snapshot, after });
+      }
+      const groups: GroupChange[] = [];
+      for (const [groupName, meta] of groupsBefore) {
+        const after = getGroupMeta(groupName);
+        if (JSON.stringify(meta) === JSON.stringify(after)) continue;
+        groups.push({ groupName, before: meta, after });
+      }
+      before.clear();
+      groupsBefore.clear();
+      if ((changes.length === 0 && groups.length === 0) || getSetting("historyDepth") === 0) return changes.length;
+
+      const journal = getJournal(owner);
+      journal.undo.push({ label, changes, groups });
+      journal.redo = [];
+      trim(journal.undo);
+      return changes.length;
+    },
+  };
+}
+
+export function undoHistory(owner: string, count: number): string[] {
+  const journal = getJournal(owner);
+  const labels: string[] = [];
+  for (let index = 0; index < count; index++) {
+    const entry = journal.undo.pop();
+    if (!entry) break;
+    applyEntry(entry, "before");
+    journal.redo.push(entry);
+    trim(journal.redo);
+    labels.push(entry.label);
+  }
+  return labels;
+}
+
+export function redoHistory(owner: string, count: number): string[] {
+  const journal = getJournal(owner);
+  const labels: string[] = [];
+  for (let index = 0; index < count; index++) {
+    const entry = journal.redo.pop();
+    if (!entry) break;
+    applyEntry(entry, "after");
+    journal.undo.push(entry);
+    trim(journal.undo);
+    labels.push(entry.label);
+  }
+  return labels;
+}
+
+export function getHistorySize(owner: string): { undo: number; redo: number } {
+  const journal = getJournal(owner);
+  return { undo: journal.undo.length, redo: journal.redo.length };
+}
@@ -2,6 +2,7 @@ import { world } from "@minecraft/server";
 import { startAutoRenderLoop } from "../lib/fmbe-lib/index.ts";
 import { registerCommands } from "./commands.ts";
 import { ensureSchema } from "./db.ts";
+import { registerEditorTrigger } from "./editor.ts";
 import { registerHitTracking } from "./events.ts";
 import { ADDON_NAME } from "./helpers.ts";
 import { registerRuntimeSync } from "./runtime.ts";
@@ -17,6 +18,7 @@ export function initializeFmbeManager(): void {
 
     ensureSchema();
     registerHitTracking();
+    registerEditorTrigger();
     registerRuntimeSync();
     startAutoRenderLoop();
     world.sendMessage(`§8[§b${ADDON_NAME}§8]§r §aInitialized`);
@@ -0,0 +1,61 @@
+import { mirrorTransform, type Axis } from "./geometry.ts";
+import { getRecordField, normalizeTransform, ROTATION_KEYS, setRecordField } from "./helpers.ts";
+import { type FmbeRecord } from "./types.ts";
+
+export type AlignMode = "min" | "max" | "center";
+
+export const ALIGN_MODES: readonly AlignMode[] = ["min", "max", "center"];
+
+function roundTo(value: number, step: number): number {
+  const rounded = Math.round(value / step) * step;
+  return Math.abs(rounded) < 1e-9 ? 0 : Number(rounded.toFixed(6));
+}
+
+function getBounds(records: FmbeRecord[], axis: Axis): { min: number; max: number } {
+  const values = records.map((record) => record[axis]);
+  return { min: Math.min(...values), max: Math.max(...values) };
+}
+
+export function mirrorRecords(records: FmbeRecord[], axis: Axis, plane: number): FmbeRecord[] {
+  return records.map((record) => ({
+    ...record,
+    [axis]: 2 * plane - record[axis],
+    transform: normalizeTransform(mirrorTransform(record.transform, axis)),
+  }));
+}
+
+export function snapRecordLocations(records: FmbeRecord[], size: number): FmbeRecord[] {
+  return records.map((record) => ({
+    ...record,
+    x: roundTo(record.x, size),
+    y: roundTo(record.y, size),
+    z: roundTo(record.z, size),
+  }));
+}
+
+export function snapRecordRotations(records: FmbeRecord[], increment: number): FmbeRecord[] {
+  return records.map((record) => {
+    let next = record;
+    for (const field of ROTATION_KEYS) {
+      if (record.transform[field] === undefined) continue;
+      next = setRecordField(next, field, roundTo(getRecordField(record, field), increment));
+    }
+    return next;
+  });
+}
+
+export function alignRecords(records: FmbeRecord[], axis: Axis, mode: AlignMode): FmbeRecord[] {
+  if (records.length === 0) return [];
+  const { min, max } = getBounds(records, axis);
+  const target = mode === "min" ? min : mode === "max" ? max : (min + max) / 2;
+  return records.map((record) => ({ ...record, [axis]: target }));
+}
+
+export function distributeRecords(records: FmbeRecord[], axis: Axis): FmbeRecord[] {
+  if (records.length < 3) return records.map((record) => ({ ...record }));
+  const { min, max } = getBounds(records, axis);
+  const step = (max - min) / (records.length - 1);
+  return [...records]
+    .sort((a, b) => a[axis] - b[axis] || a.id.localeCompare(b.id))
+    .map((record, index) => ({ ...record, [axis]: min + step * index }));
+}
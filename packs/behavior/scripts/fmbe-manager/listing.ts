@@ -0,0 +1,79 @@
+import { type Vector3 } from "@minecraft/server";
+import { type FmbePreset, type FmbeRecord } from "./types.ts";
+
+export const LIST_SORT_KEYS = ["id", "distance", "updatedAt", "type"] as const;
+export const LIST_ORDERS = ["asc", "desc"] as const;
+
+export type ListSortKey = (typeof LIST_SORT_KEYS)[number];
+export type ListOrder = (typeof LIST_ORDERS)[number];
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+
+export interface ListFilter {
+  preset?: FmbePreset;
+  groupIds?: Set<string>;
+  dimensionId?: string;
+  typeId?: string;
+  newerThan?: number;
+  olderThan?: number;
+}
+
+export interface ListPage<T> {
+  rows: T[];
+  page: number;
+  pages: number;
+  total: number;
+}
+
+export function getListTypeId(record: FmbeRecord): string {
+  return (record.preset === "item" ? record.itemTypeId : record.blockTypeId) ?? "";
+}
+
+export function getDistance(record: FmbeRecord, center: Vector3): number {
+  return Math.hypot(record.x - center.x, record.y - center.y, record.z - center.z);
+}
+
+export function filterRecords(rows: FmbeRecord[], filter: ListFilter): FmbeRecord[] {
+  return rows.filter((row) => {
+    if (filter.preset && row.preset !== filter.preset) return false;
+    if (filter.groupIds && !filter.groupIds.has(row.id)) return false;
+    if (filter.dimensionId && row.dimensionId !== filter.dimensionId) return false;
+    if (filter.typeId && row.blockTypeId !== filter.typeId && row.itemTypeId !== filter.typeId) return false;
+    if (filter.newerThan !== undefined && row.updatedAt < filter.newerThan) return false;
+    if (filter.olderThan !== undefined && row.updatedAt > filter.olderThan) return false;
+    return true;
+  });
+}
+
+export function sortRecords(rows: FmbeRecord[], key: ListSortKey, order: ListOrder, center?: Vector3): FmbeRecord[] {
+  if (key === "distance" && !center) throw new Error("sort=distance requires a center.");
+
+  const compare = (a: FmbeRecord, b: FmbeRecord): number => {
+    switch (key) {
+      case "id":
+        return a.id.localeCompare(b.id);
+      case "distance":
+        return getDistance(a, center!) - getDistance(b, center!);
+      case "updatedAt":
+        return a.updatedAt - b.updatedAt;
+      case "type":
+        return getListTypeId(a).localeCompare(getListTypeId(b));
+    }
+  };
+
+  const direction = order === "desc" ? -1 : 1;
+  return [...rows].sort((a, b) => direction * compare(a, b) || a.id.localeCompare(b.id));
+}
+
+export function paginate<T>(rows: T[], page?: number, pageSize?: number): ListPage<T> {
+  const size = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(pageSize ?? DEFAULT_PAGE_SIZE)));
+  const pages = Math.max(1, Math.ceil(rows.length / size));
+  const current = Math.min(pages, Math.max(1, Math.floor(page ?? 1)));
+  return {
+    rows: rows.slice((current - 1) * size, current * size),
+    page: current,
+    pages,
+    total: rows.length,
+  };
+}
@@ -0,0 +1,225 @@
+import { world } from "@minecraft/server";
+import { ADDON_NAME, parseTransformJson } from "./helpers.ts";
+import { chunkString, createShardedStore, readRawProperties, setStorageReadOnly, writeRawProperties } from "./storage.ts";
+
+const VERSION_KEY = "fmbe:schema";
+const PIN_KEY = "fmbe:schema_pins";
+const BACKUP_PREFIX = "fmbe:backup:";
+
+export const SCHEMA_KEYS = [
+  "fmbe:records",
+  "fmbe:groups",
+  "fmbe:animations",
+  "fmbe:settings",
+  "fmbe:templates",
+  "fmbe:bindings",
+  "fmbe:blueprints",
+] as const;
+
+export type SchemaKey = (typeof SCHEMA_KEYS)[number];
+
+interface Migration {
+  key: SchemaKey;
+  version: number;
+  description: string;
+  migrate(): void;
+}
+
+interface BackupMeta {
+  fromVersion: number;
+  toVersion: number;
+  chunks: number;
+  createdAt: number;
+}
+
+function rewriteShardedEntries(storeKey: string, update: (id: string, value: unknown) => unknown): void {
+  const store = createShardedStore<unknown>(storeKey, (_id, value) => value);
+  for (const [id, value] of [...store.load()]) {
+    store.set(id, update(id, value));
+  }
+  store.flush();
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    key: "fmbe:records",
+    version: 1,
+    description: "split single-key records into shards",
+    migrate: () => {
+      createShardedStore<unknown>("fmbe:records", (_id, value) => value).migrateLegacy();
+    },
+  },
+  {
+    key: "fmbe:records",
+    version: 2,
+    description: "convert legacy transformJson into transform",
+    migrate: () => {
+      rewriteShardedEntries("fmbe:records", (_id, value) => {
+        const { transformJson, ...row } = value as Record<string, unknown>;
+        if (row.transform === undefined) row.transform = parseTransformJson(transformJson);
+        return row;
+      });
+    },
+  },
+  {
+    key: "fmbe:groups",
+    version: 1,
+    description: "split single-key groups into shards",
+    migrate: () => {
+      createShardedStore<unknown>("fmbe:groups", (_id, value) => value).migrateLegacy();
+    },
+  },
+  {
+    key: "fmbe:groups",
+    version: 2,
+    description: "wrap group members with group metadata",
+    migrate: () => {
+      rewriteShardedEntries("fmbe:groups", (_id, value) => (Array.isArray(value) ? { members: value, meta: {} } : value));
+    },
+  },
+];
+
+function readVersions(): Partial<Record<SchemaKey, number>> {
+  const raw = world.getDynamicProperty(VERSION_KEY);
+  if (typeof raw !== "string" || raw.length === 0) return {};
+  try {
+    return JSON.parse(raw) as Partial<Record<SchemaKey, number>>;
+  } catch {
+    return {};
+  }
+}
+
+function writeVersions(versions: Partial<Record<SchemaKey, number>>): void {
+  world.setDynamicProperty(VERSION_KEY, JSON.stringify(versions));
+}
+
+function readPins(): Partial<Record<SchemaKey, number>> {
+  const raw = world.getDynamicProperty(PIN_KEY);
+  if (typeof raw !== "string" || raw.length === 0) return {};
+  try {
+    return JSON.parse(raw) as Partial<Record<SchemaKey, number>>;
+  } catch {
+    return {};
+  }
+}
+
+function writePins(pins: Partial<Record<SchemaKey, number>>): void {
+  world.setDynamicProperty(PIN_KEY, Object.keys(pins).length > 0 ? JSON.stringify(pins) : undefined);
+}
+
+function readBackupMeta(key: SchemaKey): BackupMeta | undefined {
+  const raw = world.getDynamicProperty(`${BACKUP_PREFIX}${key}`);
+  if (typeof raw !== "string" || raw.length === 0) return undefined;
+  try {
+    return JSON.parse(raw) as BackupMeta;
+  } catch {
+    return undefined;
+  }
+}
+
+function clearBackup(key: SchemaKey): void {
+  const meta = readBackupMeta(key);
+  if (!meta) return;
+  for (let index = 0; index < meta.chunks; index++) {
+    world.setDynamicProperty(`${BACKUP_PREFIX}${key}:${index}`, undefined);
+  }
+  world.setDynamicProperty(`${BACKUP_PREFIX}${key}`, undefined);
+}
+
+function writeBackup(key: SchemaKey, fromVersion: number, toVersion: number): boolean {
+  const props = readRawProperties(key);
+  if (Object.keys(props).length === 0) return false;
+
+  clearBackup(key);
+  const chunks = chunkString(JSON.stringify(props));
+  chunks.forEach((chunk, index) => world.setDynamicProperty(`${BACKUP_PREFIX}${key}:${index}`, chunk));
+  const meta: BackupMeta = { fromVersion, toVersion, chunks: chunks.length, createdAt: Date.now() };
+  world.setDynamicProperty(`${BACKUP_PREFIX}${key}`, JSON.stringify(meta));
+  return true;
+}
+
+function log(message: string): void {
+  world.sendMessage(`§8[§b${ADDON_NAME}§8]§r §7${message}`);
+}
+
+export function getLatestVersion(key: SchemaKey): number {
+  let latest = 0;
+  for (const migration of MIGRATIONS) {
+    if (migration.key === key && migration.version > latest) latest = migration.version;
+  }
+  return latest;
+}
+
+export function getSchemaVersion(key: SchemaKey): number {
+  return readVersions()[key] ?? 0;
+}
+
+export function getBackupInfo(key: SchemaKey): BackupMeta | undefined {
+  return readBackupMeta(key);
+}
+
+export function getSchemaPin(key: SchemaKey): number | undefined {
+  return readPins()[key];
+}
+
+export function unpinSchema(key: SchemaKey): number {
+  const pins = readPins();
+  const pinned = pins[key];
+  if (pinned === undefined) throw new Error(`schema not pinned: ${key}`);
+  delete pins[key];
+  writePins(pins);
+  return pinned;
+}
+
+export function runMigrations(): string[] {
+  const versions = readVersions();
+  const pins = readPins();
+  const applied: string[] = [];
+
+  for (const key of SCHEMA_KEYS) {
+    if (pins[key] !== undefined) continue;
+    const current = versions[key] ?? 0;
+    const pending = MIGRATIONS.filter((migration) => migration.key === key && migration.version > current).sort(
+      (a, b) => a.version - b.version
+    );
+    if (pending.length === 0) continue;
+
+    const target = pending[pending.length - 1]!.version;
+    const hasData = writeBackup(key, current, target);
+    if (hasData) log(`backed up ${key} v${current}`);
+
+    for (const migration of pending) {
+      migration.migrate();
+      versions[key] = migration.version;
+      writeVersions(versions);
+      const line = `${key} v${migration.version}: ${migration.description}`;
+      applied.push(line);
+      if (hasData) log(`migrated ${line}`);
+    }
+  }
+
+  return applied;
+}
+
+export function rollbackSchema(key: SchemaKey): BackupMeta {
+  const meta = readBackupMeta(key);
+  if (!meta) throw new Error(`no backup for ${key}`);
+
+  let payload = "";
+  for (let index = 0; index < meta.chunks; index++) {
+    const chunk = world.getDynamicProperty(`${BACKUP_PREFIX}${key}:${index}`);
+    if (typeof chunk !== "string") throw new Error(`backup chunk missing for ${key}: ${index}`);
+    payload += chunk;
+  }
+
+  const props = JSON.parse(payload) as Record<string, string>;
+  setStorageReadOnly(true);
+  writeRawProperties(key, props);
+
+  const versions = readVersions();
+  versions[key] = meta.fromVersion;
+  writeVersions(versions);
+  writePins({ ...readPins(), [key]: meta.fromVersion });
+  log(`rolled back ${key} to v${meta.fromVersion}; storage is read-only until the world reloads`);
+  return meta;
+}
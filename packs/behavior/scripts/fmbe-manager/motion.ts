@@ -0,0 +1,110 @@
+import { asNumber, getRecordField, ROTATION_KEYS, setRecordField } from "./helpers.ts";
+import { type FmbeRecord, type MotionKind, type RecordMotion, type StoredTransform } from "./types.ts";
+
+export const MOTION_KINDS: readonly MotionKind[] = ["spin", "bob", "orbit"];
+export const SPIN_FIELDS = ROTATION_KEYS;
+export const BOB_FIELDS: ReadonlyArray<keyof StoredTransform> = ["xOffset", "yOffset", "zOffset"];
+
+const MAX_MOTIONS = 8;
+
+function toPeriod(value: unknown): number | undefined {
+  const period = asNumber(value);
+  return period !== undefined && Math.abs(period) >= 1 ? period : undefined;
+}
+
+function toMotion(row: Record<string, unknown>): RecordMotion | undefined {
+  const period = toPeriod(row.period);
+  if (period === undefined) return undefined;
+  const phase = asNumber(row.phase) ?? 0;
+  const field = String(row.field ?? "") as keyof StoredTransform;
+
+  if (row.kind === "spin" && SPIN_FIELDS.includes(field)) return { kind: "spin", field, period, phase };
+  if (row.kind === "bob" && BOB_FIELDS.includes(field)) {
+    return { kind: "bob", field, amplitude: asNumber(row.amplitude) ?? 0, period, phase };
+  }
+  if (row.kind === "orbit") {
+    const center = (row.center ?? {}) as Record<string, unknown>;
+    return {
+      kind: "orbit",
+      radius: asNumber(row.radius) ?? 0,
+      period,
+      phase,
+      center: { x: asNumber(center.x) ?? 0, y: asNumber(center.y) ?? 0, z: asNumber(center.z) ?? 0 },
+    };
+  }
+  return undefined;
+}
+
+function getMotionKey(motion: RecordMotion): string {
+  return motion.kind === "orbit" ? motion.kind : `${motion.kind}:${motion.field}`;
+}
+
+function getAngle(motion: RecordMotion, tick: number): number {
+  return (360 * (tick % Math.abs(motion.period))) / motion.period + motion.phase;
+}
+
+export function toMotions(value: unknown): RecordMotion[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const motions = (value as Record<string, unknown>[])
+    .map((row) => toMotion(row ?? {}))
+    .filter((motion): motion is RecordMotion => motion !== undefined)
+    .slice(0, MAX_MOTIONS);
+  return motions.length > 0 ? motions : undefined;
+}
+
+export function validatePeriod(value: unknown): number {
+  const period = toPeriod(value);
+  if (period === undefined) throw new Error(`invalid period: ${String(value)} (must be at least 1 tick)`);
+  return period;
+}
+
+export function hasMotion(record: FmbeRecord): boolean {
+  return (record.motion?.length ?? 0) > 0;
+}
+
+export function withMotion(record: FmbeRecord, motion: RecordMotion): FmbeRecord {
+  const key = getMotionKey(motion);
+  const motions = (record.motion ?? []).filter((current) => getMotionKey(current) !== key);
+  if (motions.length >= MAX_MOTIONS) throw new Error(`too many motions (max ${MAX_MOTIONS}).`);
+  return { ...record, motion: [...motions, motion] };
+}
+
+export function withoutMotion(record: FmbeRecord, kind?: MotionKind): FmbeRecord {
+  const { motion, ...row } = record;
+  const motions = kind ? (motion ?? []).filter((current) => current.kind !== kind) : [];
+  return motions.length > 0 ? { ...row, motion: motions } : row;
+}
+
+export function poseRecord(record: FmbeRecord, tick: number): FmbeRecord {
+  let posed = record;
+  for (const motion of record.motion ?? []) {
+    const angle = getAngle(motion, tick);
+    if (motion.kind === "spin") {
+      posed = setRecordField(posed, motion.field, getRecordField(record, motion.field) + angle);
+      continue;
+    }
+
+    const radians = (angle * Math.PI) / 180;
+    if (motion.kind === "bob") {
+      posed = setRecordField(posed, motion.field, getRecordField(record, motion.field) + motion.amplitude * Math.sin(radians));
+      continue;
+    }
+
+    posed = {
+      ...posed,
+      x: record.x + motion.center.x + motion.radius * Math.cos(radians),
+      y: record.y + motion.center.y,
+      z: record.z + motion.center.z + motion.radius * Math.sin(radians),
+    };
+  }
+  return posed;
+}
+
+export function formatMotion(motion: RecordMotion): string {
+  if (motion.kind === "spin") return `spin ${motion.field} period=${motion.period} phase=${motion.phase}`;
+  if (motion.kind === "bob") {
+    return `bob ${motion.field} amplitude=${motion.amplitude} period=${motion.period} phase=${motion.phase}`;
+  }
+  const { x, y, z } = motion.center;
+  return `orbit radius=${motion.radius} period=${motion.period} phase=${motion.phase} center=~${x.toFixed(2)} ~${y.toFixed(2)} ~${z.toFixed(2)}`;
+}
@@ -0,0 +1,106 @@
+export const GROUP_OPERATION_QUEUE_SLOTS = 8;
+export const DEFAULT_LERP_ALPHA = 0.5;
+
+export const GROUP_OPERATION_TARGETS = [
+  "xOffset",
+  "yOffset",
+  "zOffset",
+  "xRot",
+  "yRot",
+  "zRot",
+  "scale",
+  "extendScale",
+  "extendXrot",
+  "extendYrot",
+  "extendZrot",
+  "xBasePos",
+  "yBasePos",
+  "zBasePos",
+  "x",
+  "y",
+  "z",
+  "rotate",
+] as const;
+
+export const GROUP_OPERATION_TYPE_DEFINITIONS = [
+  { type: "add", en: "current + value", ja: "現在値 + value" },
+  { type: "sub", en: "current - value", ja: "現在値 - value" },
+  { type: "mul", en: "current * value", ja: "現在値 * value" },
+  { type: "div", en: "current / value (ignored when value is 0)", ja: "現在値 / value（value が 0 の場合は無視）" },
+  { type: "set", en: "value", ja: "value をそのまま設定" },
+  { type: "min", en: "smaller of current and value", ja: "現在値と value の小さい方" },
+  { type: "max", en: "larger of current and value", ja: "現在値と value の大きい方" },
+  { type: "mod", en: "current modulo value, always >= 0 (ignored when value is 0)", ja: "現在値を value で割った余り（常に 0 以上、value が 0 の場合は無視）" },
+  { type: "lerp", en: "moves current towards value by alpha (default 0.5)", ja: "現在値を value に向けて alpha（既定 0.5）の割合だけ近づける" },
+] as const;
+
+export const GROUP_OPERATION_TARGET_NOTES = [
+  {
+    target: "rotate",
+    en: "add/sub only (other types are ignored). A group orbits around its pivot; a single FMBE turns its yRot in place",
+    ja: "add / sub のみ（他の種類は無視）。グループは中心の周りを回転し、単体の FMBE はその場で yRot を回転",
+  },
+] as const;
+
+export type GroupOperationTarget = (typeof GROUP_OPERATION_TARGETS)[number];
+export type GroupOperationType = (typeof GROUP_OPERATION_TYPE_DEFINITIONS)[number]["type"];
+
+export const GROUP_OPERATION_TYPES: GroupOperationType[] = GROUP_OPERATION_TYPE_DEFINITIONS.map((definition) => definition.type);
+
+export interface GroupOperation {
+  target: GroupOperationTarget;
+  type: GroupOperationType;
+  value: number;
+  alpha?: number;
+}
+
+export function getRotateDegrees(operation: GroupOperation): number {
+  if (operation.type === "add") return operation.value;
+  if (operation.type === "sub") return -operation.value;
+  return 0;
+}
+
+export function getOperationTargetByCode(code: number): GroupOperationTarget | undefined {
+  return GROUP_OPERATION_TARGETS[code - 1];
+}
+
+export function getOperationTypeByCode(code: number): GroupOperationType | undefined {
+  return GROUP_OPERATION_TYPES[code - 1];
+}
+
+export function formatOperationTargetCodes(): string {
+  return GROUP_OPERATION_TARGETS.map((target, index) => `${index + 1}:${target}`).join(" ");
+}
+
+export function getOperationTypeDescriptions(language: "en" | "ja"): string[] {
+  return GROUP_OPERATION_TYPE_DEFINITIONS.map((definition, index) => `${index + 1}:${definition.type} = ${definition[language]}`);
+}
+
+export function applyOperation(current: number, operation: GroupOperation): number {
+  switch (operation.type) {
+    case "add":
+      return current + operation.value;
+    case "sub":
+      return current - operation.value;
+    case "mul":
+      return current * operation.value;
+    case "div":
+      if (operation.value === 0) return current;
+      return current / operation.value;
+    case "set":
+      return operation.value;
+    case "min":
+      return Math.min(current, operation.value);
+    case "max":
+      return Math.max(current, operation.value);
+    case "mod": {
+      if (operation.value === 0) return current;
+      const divisor = Math.abs(operation.value);
+      return ((current % divisor) + divisor) % divisor;
+    }
+    case "lerp":
+      return current + (operation.value - current) * (operation.alpha ?? DEFAULT_LERP_ALPHA);
+    default:
+      return current;
+  }
+}
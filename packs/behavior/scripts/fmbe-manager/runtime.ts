@@ -1,23 +1,85 @@
 import { system, world } from "@minecraft/server";
-import { getAllRecords, getRecordById, upsertRecord } from "./db.ts";
-import { applyRecordToEntity, getAllManagedEntities } from "./entities.ts";
-import { DP_ID, normalizeTransform, now } from "./helpers.ts";
+import { getRecordById, getRecordIds, getRecordRevision, takeChangedRecordIds, upsertRecord } from "./db.ts";
+import { stepTimelines } from "./animations.ts";
+import { attachRecord } from "./attachments.ts";
+import { applyFacing, computeFacing, getBillboard, type Facing } from "./billboard.ts";
+import { evaluateBindings } from "./bindings.ts";
 import {
-  readGroupOperation,
+  applyRecordToEntity,
+  applyRenderPose,
+  findEntityByFmbeId,
+  getAllManagedEntities,
+  getManagedEntityMap,
+  invalidateEntityCache,
+  registerEntityTracking,
+} from "./entities.ts";
+import { getRecordField, normalizeTransform, now, setRecordField } from "./helpers.ts";
+import {
+  getGroupParticipant,
+  readEntityOperation,
+  readGroupOperations,
   readGroupScores,
   readRecordFromEntityScores,
+  setGroupFieldScore,
   syncEntityScores,
   syncGroupScores,
-  ensureGroupOperationObjectives,
-  type GroupOperation,
+  ensureOperationObjectives,
+  type SequencedOperation,
 } from "./scoreboard.ts";
-import { getGroupForRecord, getGroupMembers, listGroups, removeRecordFromGroups } from "./groups.ts";
-import { type FmbeRecord } from "./types.ts";
+import { applyOperation, getRotateDegrees, type GroupOperation } from "./operations.ts";
+import {
+  getDescendantGroups,
+  getGroupForRecord,
+  getGroupMembersDeep,
+  getGroupMeta,
+  getGroupTree,
+  getMembershipRevision,
+  hasGroup,
+  listGroups,
+  removeRecordFromGroups,
+  setGroupMeta,
+} from "./groups.ts";
+import { beginHistory, SHARED_JOURNAL, type HistoryRecorder } from "./history.ts";
+import { hasMotion, poseRecord } from "./motion.ts";
+import { getSetting } from "./settings.ts";
+import { hasPreview } from "./state.ts";
+import { updateStreaming } from "./streaming.ts";
+import {
+  createGroupTransform,
+  orbitGroupTransform,
+  orbitMember,
+  orbitPoint,
+  recomposeGroupTransform,
+  recomposeMember,
+  recomposePoint,
+  resolveGroupPivot,
+} from "./composition.ts";
+import {
+  type AnimationTimeline,
+  type FmbeRecord,
+  type GroupMemberLocal,
+  type GroupMeta,
+  type GroupTransform,
+  type RecordField,
+} from "./types.ts";
+
+const ENTITY_RESCAN_INTERVAL_TICKS = 200;
+const REFRESH_INTERVAL_TICKS = 200;
+const STREAM_INTERVAL_TICKS = 10;
 
 const groupSnapshotCache = new Map<string, string>();
 const groupOperationSeqCache = new Map<string, number>();
+const entityOperationSeqCache = new Map<string, number>();
+const appliedState = new Map<string, { key: string; tick: number }>();
+const pendingRecordIds = new Set<string>();
+const posedRecordIds = new Set<string>();
+const billboardFacing = new Map<string, Facing>();
+let tickCount = 0;
+let pollCursor = 0;
 
-const defaultTransformValue: Record<Exclude<GroupOperation["target"], "x" | "y" | "z">, number> = {
+type TransformTarget = Exclude<GroupOperation["target"], "x" | "y" | "z" | "rotate">;
+
+const defaultTransformValue: Record<TransformTarget, number> = {
   xOffset: 0,
   yOffset: 0,
   zOffset: 0,
@@ -34,24 +96,8 @@ const defaultTransformValue: Record<Exclude<GroupOperation["target"], "x" | "y"
   zBasePos: 0,
 };
 
-function isTransformTarget(target: GroupOperation["target"]): target is Exclude<GroupOperation["target"], "x" | "y" | "z"> {
-  return target !== "x" && target !== "y" && target !== "z";
-}
-
-function applyOperation(current: number, operation: GroupOperation): number {
-  switch (operation.type) {
-    case "add":
-      return current + operation.value;
-    case "sub":
-      return current - operation.value;
-    case "mul":
-      return current * operation.value;
-    case "div":
-      if (operation.value === 0) return current;
-      return current / operation.value;
-    default:
-      return current;
-  }
+function isTransformTarget(target: GroupOperation["target"]): target is TransformTarget {
+  return target !== "x" && target !== "y" && target !== "z" && target !== "rotate";
 }
 
 function applyGroupRelativeOperation(record: FmbeRecord, operation: GroupOperation): FmbeRecord {
@@ -62,6 +108,9 @@ function applyGroupRelativeOperation(record: FmbeRecord, operation: GroupOperati
   };
 
   switch (operation.target) {
+    case "rotate":
+      next.transform.yRot = (next.transform.yRot ?? defaultTransformValue.yRot) + getRotateDegrees(operation);
+      break;
     case "x":
       next.x = applyOperation(next.x, operation);
       break;
@@ -73,8 +122,8 @@ function applyGroupRelativeOperation(record: FmbeRecord, operation: GroupOperati
       break;
     default: {
       if (!isTransformTarget(operation.target)) return next;
-      const key: Exclude<GroupOperation["target"], "x" | "y" | "z"> = operation.target;
-      const transform = next.transform as Record<Exclude<GroupOperation["target"], "x" | "y" | "z">, number | undefined>;
+      const key: TransformTarget = operation.target;
+      const transform = next.transform as Record<TransformTarget, number | undefined>;
       const current = transform[key] ?? defaultTransformValue[key];
       transform[key] = applyOperation(current, operation);
       break;
@@ -86,42 +135,93 @@ function applyGroupRelativeOperation(record: FmbeRecord, operation: GroupOperati
   return next;
 }
 
-function applyGroupRelativeOperations(entityMap: Map<string, ReturnType<typeof getAllManagedEntities>[number]>): void {
+function applyGroupRelativeOperations(): void {
   const groups = listGroups();
   const groupSet = new Set(groups);
 
   for (const groupName of groups) {
-    const operation = readGroupOperation(groupName);
-    if (!operation) continue;
+    const pending = readGroupOperations(groupName).filter((operation) => {
+      const cacheKey = `${groupName}#${operation.slot}`;
+      const prevSeq = groupOperationSeqCache.get(cacheKey);
+      groupOperationSeqCache.set(cacheKey, operation.seq);
+      return prevSeq !== undefined && prevSeq !== operation.seq;
+    });
+    if (pending.length === 0) continue;
+
+    const history = beginHistory(SHARED_JOURNAL, `group_op:${groupName}`);
+    for (const operation of pending) applyGroupOperation(groupName, operation, history);
+    history.commit();
+  }
+
+  for (const key of [...groupOperationSeqCache.keys()]) {
+    if (!groupSet.has(key.slice(0, key.lastIndexOf("#")))) groupOperationSeqCache.delete(key);
+  }
+}
 
-    const prevSeq = groupOperationSeqCache.get(groupName);
-    if (prevSeq === undefined) {
-      groupOperationSeqCache.set(groupName, operation.seq);
+export function applyGroupOperation(
+  groupName: string,
+  operation: GroupOperation,
+  history?: HistoryRecorder
+): number {
+  if (operation.target === "rotate") {
+    const degrees = getRotateDegrees(operation);
+    return degrees === 0 ? 0 : rotateGroup(groupName, degrees, history);
+  }
+
+  let updated = 0;
+  for (const memberId of getGroupMembersDeep(groupName)) {
+    const current = getRecordById(memberId);
+    if (!current) {
+      removeRecordFromGroups(memberId);
       continue;
     }
-    if (prevSeq === operation.seq) continue;
 
-    groupOperationSeqCache.set(groupName, operation.seq);
+    history?.capture(memberId);
+    upsertRecord(applyGroupRelativeOperation(current, operation));
+    updated++;
+  }
+  return updated;
+}
 
-    const memberIds = getGroupMembers(groupName);
-    for (const memberId of memberIds) {
-      const current = getRecordById(memberId);
-      if (!current) {
-        removeRecordFromGroups(memberId);
-        continue;
-      }
+export function refreshGroupMembers(groupName: string): void {
+  for (const id of getGroupMembersDeep(groupName)) {
+    appliedState.delete(id);
+    billboardFacing.delete(id);
+    pendingRecordIds.add(id);
+  }
+}
 
-      const next = applyGroupRelativeOperation(current, operation);
-      upsertRecord(next);
+export function rotateGroup(groupName: string, degrees: number, history?: HistoryRecorder): number {
+  const members = getGroupMembersDeep(groupName)
+    .map((id) => getRecordById(id))
+    .filter((value): value is FmbeRecord => value !== undefined);
+  const pivot = resolveGroupPivot(getGroupMeta(groupName), members);
 
-      const entity = entityMap.get(memberId);
-      if (entity) applyRecordToEntity(entity, next);
-    }
+  for (const member of members) {
+    history?.capture(member.id);
+    upsertRecord({ ...orbitMember(member, pivot, degrees), updatedAt: now() });
   }
-
-  for (const key of [...groupOperationSeqCache.keys()]) {
-    if (!groupSet.has(key)) groupOperationSeqCache.delete(key);
+  for (const frameGroup of [groupName, ...getDescendantGroups(groupName)]) {
+    updateGroupFrame(frameGroup, (meta) => ({
+      ...meta,
+      transform: meta.transform && orbitGroupTransform(meta.transform, pivot, degrees),
+      pivot: meta.pivot && orbitPoint(meta.pivot, pivot, degrees),
+    }));
   }
+  return members.length;
+}
+
+function updateGroupFrame(groupName: string, update: (meta: GroupMeta) => GroupMeta): void {
+  const meta = getGroupMeta(groupName);
+  if (!meta) return;
+
+  const next = update(meta);
+  if (!next.transform) delete next.transform;
+  if (!next.pivot) delete next.pivot;
+  setGroupMeta(groupName, next);
+  if (!next.transform) return;
+  syncGroupScores(groupName, next.transform);
+  groupSnapshotCache.set(groupName, snapshot(next.transform));
 }
 
 function snapshot(record: { preset: string; x: number; y: number; z: number; transform: unknown }): string {
@@ -134,28 +234,42 @@ function snapshot(record: { preset: string; x: number; y: number; z: number; tra
   });
 }
 
-function applyGroupScoreChanges(entityMap: Map<string, ReturnType<typeof getAllManagedEntities>[number]>): void {
-  const groups = listGroups();
+function getGroupTransform(groupName: string, members: FmbeRecord[]): GroupTransform {
+  const meta = getGroupMeta(groupName) ?? {};
+  if (meta.transform) return meta.transform;
+
+  const transform = createGroupTransform(members);
+  const { locals: _locals, ...rest } = meta;
+  setGroupMeta(groupName, { ...rest, transform });
+  return transform;
+}
+
+function applyGroupScoreChanges(): void {
+  const groups = getGroupTree().map((row) => row.groupName);
   const groupSet = new Set(groups);
 
   for (const groupName of groups) {
-    const memberIds = getGroupMembers(groupName);
-    const firstMember = memberIds.map((id) => getRecordById(id)).find((value) => value !== undefined);
-    if (!firstMember) continue;
+    const memberIds = getGroupMembersDeep(groupName);
+    const members = memberIds.map((id) => getRecordById(id)).filter((value): value is FmbeRecord => value !== undefined);
+    if (members.length === 0) continue;
 
+    const stored = getGroupTransform(groupName, members);
     const prev = groupSnapshotCache.get(groupName);
     if (!prev) {
-      syncGroupScores(groupName, firstMember);
-      groupSnapshotCache.set(groupName, snapshot(firstMember));
+      syncGroupScores(groupName, stored);
+      groupSnapshotCache.set(groupName, snapshot(stored));
       continue;
     }
 
-    const read = readGroupScores(groupName, firstMember);
+    const read = readGroupScores(groupName, stored);
     const nextSnapshot = snapshot(read.record);
     if (nextSnapshot === prev) continue;
 
     groupSnapshotCache.set(groupName, nextSnapshot);
 
+    const storedLocals = getGroupMeta(groupName)?.locals ?? {};
+    const locals: Record<string, GroupMemberLocal> = {};
+    const history = beginHistory(SHARED_JOURNAL, `group_scores:${groupName}`);
     for (const memberId of memberIds) {
       const current = getRecordById(memberId);
       if (!current) {
@@ -163,19 +277,19 @@ function applyGroupScoreChanges(entityMap: Map<string, ReturnType<typeof getAllM
         continue;
       }
 
-      const next = {
-        ...current,
-        preset: read.record.preset,
-        x: read.record.x,
-        y: read.record.y,
-        z: read.record.z,
-        transform: { ...read.record.transform },
-        updatedAt: now(),
-      };
-      upsertRecord(next);
-
-      const entity = entityMap.get(memberId);
-      if (entity) applyRecordToEntity(entity, next);
+      history.capture(memberId);
+      const recomposed = recomposeMember(stored, read.record, current, storedLocals[memberId]);
+      locals[memberId] = recomposed.local;
+      upsertRecord({ ...recomposed.record, updatedAt: now() });
+    }
+    history.commit();
+    setGroupMeta(groupName, { ...getGroupMeta(groupName), transform: read.record, locals });
+    for (const child of getDescendantGroups(groupName)) {
+      updateGroupFrame(child, (meta) => ({
+        ...meta,
+        transform: meta.transform && recomposeGroupTransform(stored, read.record, meta.transform),
+        pivot: meta.pivot && recomposePoint(stored, read.record, meta.pivot),
+      }));
     }
   }
 
@@ -184,69 +298,247 @@ function applyGroupScoreChanges(entityMap: Map<string, ReturnType<typeof getAllM
   }
 }
 
+export function applyTimelineFrame(
+  timeline: AnimationTimeline,
+  values: Map<RecordField, number>,
+  history?: HistoryRecorder
+): number {
+  const recordIds = timeline.targetKind === "group" ? getGroupMembersDeep(timeline.targetId) : [timeline.targetId];
+  let applied = 0;
+
+  for (const recordId of recordIds) {
+    const current = getRecordById(recordId);
+    if (!current) continue;
+
+    let next = current;
+    for (const [field, value] of values) {
+      next = setRecordField(next, field, value);
+    }
+    const changed = [...values.keys()].some((field) => getRecordField(next, field) !== getRecordField(current, field));
+    if (!changed) continue;
+
+    next = { ...next, updatedAt: now() };
+    history?.capture(recordId);
+    upsertRecord(next);
+    const entity = findEntityByFmbeId(recordId);
+    if (entity && !hasPreview(recordId)) applyToEntity(entity, next);
+    applied++;
+  }
+
+  return applied;
+}
+
+function applyAnimationFrames(): void {
+  for (const frame of stepTimelines()) {
+    applyTimelineFrame(frame.timeline, frame.values);
+  }
+}
+
+function applyBindings(entityMap: Map<string, ReturnType<typeof getAllManagedEntities>[number]>): void {
+  const results = evaluateBindings((binding) =>
+    binding.targetKind === "group" ? getGroupParticipant(binding.targetId) : entityMap.get(binding.targetId)
+  );
+
+  for (const { binding, value } of results) {
+    if (binding.targetKind === "group") {
+      if (hasGroup(binding.targetId)) setGroupFieldScore(binding.targetId, binding.field, value);
+      continue;
+    }
+
+    const current = getRecordById(binding.targetId);
+    if (!current || hasPreview(current.id)) continue;
+    const next: FmbeRecord = { ...setRecordField(current, binding.field, value), updatedAt: now() };
+    if (Math.abs(getRecordField(next, binding.field) - getRecordField(current, binding.field)) < 0.001) continue;
+    upsertRecord(next);
+    const entity = entityMap.get(next.id);
+    if (entity) applyToEntity(entity, next);
+  }
+}
+
 function isSameLocation(a: { x: number; y: number; z: number }, b: { x: number; y: number; z: number }): boolean {
   return Math.abs(a.x - b.x) < 0.01 && Math.abs(a.y - b.y) < 0.01 && Math.abs(a.z - b.z) < 0.01;
 }
 
-export function registerRuntimeSync(): void {
-  ensureGroupOperationObjectives();
-
-  system.runInterval(() => {
-    const entityMap = new Map<string, ReturnType<typeof getAllManagedEntities>[number]>();
-    for (const entity of getAllManagedEntities()) {
-      const fmbeId = entity.getDynamicProperty(DP_ID);
-      if (typeof fmbeId !== "string") continue;
-      entityMap.set(fmbeId, entity);
+function syncEntityLocation(entity: ReturnType<typeof getAllManagedEntities>[number], record: FmbeRecord): void {
+  if (entity.dimension.id === record.dimensionId && isSameLocation(entity.location, record)) return;
+  entity.teleport(
+    { x: record.x, y: record.y, z: record.z },
+    {
+      dimension: world.getDimension(record.dimensionId),
     }
+  );
+}
 
-    applyGroupRelativeOperations(entityMap);
-    applyGroupScoreChanges(entityMap);
-
-    const records = getAllRecords();
-    if (records.length === 0) return;
-
-    for (const record of records) {
-      const entity = entityMap.get(record.id);
-      if (!entity) continue;
-
-      if (getGroupForRecord(record.id)) {
-        syncEntityScores(entity, record);
-        if (entity.dimension.id !== record.dimensionId || !isSameLocation(entity.location, record)) {
-          entity.teleport(
-            { x: record.x, y: record.y, z: record.z },
-            {
-              dimension: world.getDimension(record.dimensionId),
-            }
-          );
-        }
-        applyRecordToEntity(entity, record);
-        continue;
-      }
+function appliedKey(entity: ReturnType<typeof getAllManagedEntities>[number], record: FmbeRecord): string {
+  return `${getRecordRevision(record.id)}:${getMembershipRevision()}:${entity.id}`;
+}
+
+function applyToEntity(entity: ReturnType<typeof getAllManagedEntities>[number], record: FmbeRecord): void {
+  applyRecordToEntity(entity, record);
+  appliedState.set(record.id, { key: appliedKey(entity, record), tick: tickCount });
+}
+
+function applyIfDirty(entity: ReturnType<typeof getAllManagedEntities>[number], record: FmbeRecord): void {
+  const applied = appliedState.get(record.id);
+  if (applied && applied.key === appliedKey(entity, record) && tickCount - applied.tick < REFRESH_INTERVAL_TICKS) return;
+
+  applyToEntity(entity, record);
+}
+
+function isPosed(record: FmbeRecord): boolean {
+  return record.attachment !== undefined || hasMotion(record) || getBillboard(record) !== undefined;
+}
+
+function presentRecord(entity: ReturnType<typeof getAllManagedEntities>[number], record: FmbeRecord): void {
+  if (isPosed(record)) {
+    posedRecordIds.add(record.id);
+  } else {
+    posedRecordIds.delete(record.id);
+    billboardFacing.delete(record.id);
+    syncEntityLocation(entity, record);
+  }
+  applyIfDirty(entity, record);
+}
 
-      const scoreUpdate = readRecordFromEntityScores(entity, record);
-      const effectiveRecord = scoreUpdate.changed
-        ? {
-            ...scoreUpdate.record,
-            updatedAt: now(),
-          }
-        : record;
-
-      if (scoreUpdate.changed) {
-        upsertRecord(effectiveRecord);
-      } else {
-        syncEntityScores(entity, record);
+function applyPoseFrames(entityMap: Map<string, ReturnType<typeof getAllManagedEntities>[number]>): void {
+  const updateFacing = tickCount % getSetting("billboardIntervalTicks") === 0;
+
+  for (const id of [...posedRecordIds]) {
+    const record = getRecordById(id);
+    if (!record || !isPosed(record)) {
+      posedRecordIds.delete(id);
+      billboardFacing.delete(id);
+      continue;
+    }
+    const entity = entityMap.get(id);
+    if (!entity || hasPreview(id)) continue;
+
+    let posed = poseRecord(attachRecord(record), system.currentTick);
+    const billboard = getBillboard(record);
+    if (billboard) {
+      const cached = billboardFacing.get(id);
+      const facing = updateFacing || !cached ? (computeFacing(posed, billboard) ?? cached) : cached;
+      if (facing) {
+        billboardFacing.set(id, facing);
+        posed = applyFacing(posed, facing, billboard.mode);
       }
+    }
+
+    syncEntityLocation(entity, posed);
+    applyRenderPose(entity, posed);
+  }
+}
+
+function pruneAppliedState(): void {
+  const ids = new Set(getRecordIds());
+  for (const id of [...entityOperationSeqCache.keys()]) {
+    if (!ids.has(id)) entityOperationSeqCache.delete(id);
+  }
+  for (const id of [...appliedState.keys()]) {
+    if (!ids.has(id)) appliedState.delete(id);
+  }
+}
+
+function takeEntityOperation(
+  recordId: string,
+  entity: ReturnType<typeof getAllManagedEntities>[number]
+): SequencedOperation | undefined {
+  const operation = readEntityOperation(entity);
+  if (!operation) return undefined;
+
+  const prevSeq = entityOperationSeqCache.get(recordId);
+  entityOperationSeqCache.set(recordId, operation.seq);
+  if (prevSeq === undefined || prevSeq === operation.seq) return undefined;
+  return operation;
+}
+
+function applyEntityOperation(record: FmbeRecord, operation: GroupOperation): FmbeRecord {
+  const history = beginHistory(SHARED_JOURNAL, `entity_op:${record.id}`);
+  history.capture(record.id);
+  const next = applyGroupRelativeOperation(record, operation);
+  upsertRecord(next);
+  history.commit();
+  return next;
+}
 
-      if (entity.dimension.id !== effectiveRecord.dimensionId || !isSameLocation(entity.location, effectiveRecord)) {
-        entity.teleport(
-          { x: effectiveRecord.x, y: effectiveRecord.y, z: effectiveRecord.z },
-          {
-            dimension: world.getDimension(effectiveRecord.dimensionId),
-          }
-        );
+function syncRecord(entityMap: Map<string, ReturnType<typeof getAllManagedEntities>[number]>, record: FmbeRecord): void {
+  const entity = entityMap.get(record.id);
+  if (!entity) return;
+  if (hasPreview(record.id)) return;
+
+  const scoreUpdate = readRecordFromEntityScores(entity, record);
+  const operation = takeEntityOperation(record.id, entity);
+
+  if (getGroupForRecord(record.id)) {
+    const next = operation ? applyEntityOperation(record, operation) : record;
+    if (scoreUpdate.changed) syncEntityScores(entity, next);
+    presentRecord(entity, next);
+    return;
+  }
+
+  let effectiveRecord = scoreUpdate.changed
+    ? {
+        ...scoreUpdate.record,
+        updatedAt: now(),
       }
+    : record;
+
+  if (scoreUpdate.changed) upsertRecord(effectiveRecord);
+  if (operation) effectiveRecord = applyEntityOperation(effectiveRecord, operation);
 
-      applyRecordToEntity(entity, effectiveRecord);
+  presentRecord(entity, effectiveRecord);
+}
+
+function processPendingRecords(
+  entityMap: Map<string, ReturnType<typeof getAllManagedEntities>[number]>,
+  deadline: number
+): void {
+  for (const id of takeChangedRecordIds()) pendingRecordIds.add(id);
+
+  for (const id of [...pendingRecordIds]) {
+    if (Date.now() >= deadline) return;
+    pendingRecordIds.delete(id);
+    const record = getRecordById(id);
+    if (record) syncRecord(entityMap, record);
+  }
+}
+
+function pollRecords(entityMap: Map<string, ReturnType<typeof getAllManagedEntities>[number]>, deadline: number): void {
+  const ids = getRecordIds();
+  if (ids.length === 0) return;
+  if (pollCursor >= ids.length) pollCursor = 0;
+
+  for (let processed = 0; processed < ids.length; processed++) {
+    if (processed > 0 && Date.now() >= deadline) return;
+    const id = ids[pollCursor]!;
+    pollCursor = (pollCursor + 1) % ids.length;
+    if (pendingRecordIds.has(id)) continue;
+    const record = getRecordById(id);
+    if (record) syncRecord(entityMap, record);
+  }
+}
+
+export function registerRuntimeSync(): void {
+  ensureOperationObjectives();
+  registerEntityTracking();
+
+  system.runInterval(() => {
+    const deadline = Date.now() + getSetting("tickBudgetMs");
+    tickCount++;
+    if (tickCount % ENTITY_RESCAN_INTERVAL_TICKS === 0) {
+      invalidateEntityCache();
+      pruneAppliedState();
     }
+    const entityMap = getManagedEntityMap();
+
+    applyBindings(entityMap);
+    applyGroupRelativeOperations();
+    applyGroupScoreChanges();
+    applyAnimationFrames();
+    if (tickCount % STREAM_INTERVAL_TICKS === 0) updateStreaming(entityMap);
+
+    processPendingRecords(entityMap, deadline);
+    pollRecords(entityMap, deadline);
+    applyPoseFrames(entityMap);
   }, 1);
 }
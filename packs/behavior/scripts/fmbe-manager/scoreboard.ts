@@ -1,6 +1,12 @@
 import { world, type Entity } from "@minecraft/server";
-import { type FmbeRecord, type StoredTransform } from "./types.ts";
+import { type FmbeRecord, type GroupTransform, type RecordField, type StoredTransform } from "./types.ts";
 import { normalizeTransform } from "./helpers.ts";
+import {
+  GROUP_OPERATION_QUEUE_SLOTS,
+  getOperationTargetByCode,
+  getOperationTypeByCode,
+  type GroupOperation,
+} from "./operations.ts";
 
 const SCALE = 1000;
 
@@ -54,55 +60,42 @@ const GROUP_LOCATION_OBJECTIVES = {
 
 const GROUP_PRESET_OBJECTIVE = "fmbe:group:Preset";
 
-const GROUP_OPERATION_OBJECTIVES = {
+interface OperationObjectives {
+  seq: string;
+  target: string;
+  type: string;
+  value: string;
+  alpha: string;
+}
+
+const GROUP_OPERATION_OBJECTIVES: OperationObjectives = {
   seq: "fmbe:group:OpSeq",
   target: "fmbe:group:OpTarget",
   type: "fmbe:group:OpType",
   value: "fmbe:group:OpValue",
-} as const;
-
-export function ensureGroupOperationObjectives(): void {
-  getObjective(GROUP_OPERATION_OBJECTIVES.seq);
-  getObjective(GROUP_OPERATION_OBJECTIVES.target);
-  getObjective(GROUP_OPERATION_OBJECTIVES.type);
-  getObjective(GROUP_OPERATION_OBJECTIVES.value);
-}
-
-const GROUP_TARGET_MAP = {
-  1: "xOffset",
-  2: "yOffset",
-  3: "zOffset",
-  4: "xRot",
-  5: "yRot",
-  6: "zRot",
-  7: "scale",
-  8: "extendScale",
-  9: "extendXrot",
-  10: "extendYrot",
-  11: "extendZrot",
-  12: "xBasePos",
-  13: "yBasePos",
-  14: "zBasePos",
-  15: "x",
-  16: "y",
-  17: "z",
-} as const;
+  alpha: "fmbe:group:OpAlpha",
+};
 
-const GROUP_OPERATION_TYPE_MAP = {
-  1: "add",
-  2: "sub",
-  3: "mul",
-  4: "div",
-} as const;
+const ENTITY_OPERATION_OBJECTIVES: OperationObjectives = {
+  seq: "fmbe:OpSeq",
+  target: "fmbe:OpTarget",
+  type: "fmbe:OpType",
+  value: "fmbe:OpValue",
+  alpha: "fmbe:OpAlpha",
+};
 
-export type GroupOperationTarget = (typeof GROUP_TARGET_MAP)[keyof typeof GROUP_TARGET_MAP];
-export type GroupOperationType = (typeof GROUP_OPERATION_TYPE_MAP)[keyof typeof GROUP_OPERATION_TYPE_MAP];
+export function ensureOperationObjectives(): void {
+  for (const objectives of [GROUP_OPERATION_OBJECTIVES, ENTITY_OPERATION_OBJECTIVES]) {
+    for (const objectiveId of Object.values(objectives)) getObjective(objectiveId);
+  }
+}
 
-export interface GroupOperation {
+export interface SequencedOperation extends GroupOperation {
   seq: number;
-  target: GroupOperationTarget;
-  type: GroupOperationType;
-  value: number;
+}
+
+export interface QueuedGroupOperation extends SequencedOperation {
+  slot: number;
 }
 
 const PRESET_TO_SCORE: Record<FmbeRecord["preset"], number> = {
@@ -150,7 +143,7 @@ function getTransformValue(transform: StoredTransform, key: keyof StoredTransfor
   return transform[key] ?? DEFAULT_TRANSFORM_VALUES[key];
 }
 
-function getGroupParticipant(groupName: string): string {
+export function getGroupParticipant(groupName: string): string {
   return `fmbe:group:${groupName}`;
 }
 
@@ -170,7 +163,14 @@ export function syncEntityScores(entity: Entity, record: FmbeRecord): void {
 }
 
 export function removeEntityScores(entity: Entity): void {
-  const allObjectives = [...Object.values(SCORE_OBJECTIVES), LOCATION_OBJECTIVES.x, LOCATION_OBJECTIVES.y, LOCATION_OBJECTIVES.z, PRESET_OBJECTIVE];
+  const allObjectives = [
+    ...Object.values(SCORE_OBJECTIVES),
+    LOCATION_OBJECTIVES.x,
+    LOCATION_OBJECTIVES.y,
+    LOCATION_OBJECTIVES.z,
+    PRESET_OBJECTIVE,
+    ...Object.values(ENTITY_OPERATION_OBJECTIVES),
+  ];
   for (const objectiveId of allObjectives) {
     const objective = getObjective(objectiveId);
     if (!objective) continue;
@@ -244,7 +244,7 @@ export function readRecordFromEntityScores(entity: Entity, record: FmbeRecord):
   return { changed, record: next };
 }
 
-export function syncGroupScores(groupName: string, record: FmbeRecord): void {
+export function syncGroupScores(groupName: string, record: GroupTransform): void {
   const participant = getGroupParticipant(groupName);
 
   for (const [key, objectiveId] of Object.entries(GROUP_SCORE_OBJECTIVES) as Array<[keyof StoredTransform, string]>) {
@@ -274,9 +274,29 @@ export function removeGroupScores(groupName: string): void {
   }
 }
 
-export function readGroupScores(groupName: string, fallback: FmbeRecord): { changed: boolean; record: FmbeRecord } {
+export function setGroupFieldScore(groupName: string, field: RecordField, value: number): boolean {
+  const objectiveId = field === "x" || field === "y" || field === "z" ? GROUP_LOCATION_OBJECTIVES[field] : GROUP_SCORE_OBJECTIVES[field];
+  const objective = getObjective(objectiveId);
   const participant = getGroupParticipant(groupName);
-  const next: FmbeRecord = {
+  const score = toScore(value);
+  if (objective.getScore(participant) === score) return false;
+  objective.setScore(participant, score);
+  return true;
+}
+
+export function readParticipantScore(objectiveId: string, participant: Entity | string): number | undefined {
+  const objective = world.scoreboard.getObjective(objectiveId);
+  if (!objective) return undefined;
+  try {
+    return objective.getScore(participant);
+  } catch {
+    return undefined;
+  }
+}
+
+export function readGroupScores(groupName: string, fallback: GroupTransform): { changed: boolean; record: GroupTransform } {
+  const participant = getGroupParticipant(groupName);
+  const next: GroupTransform = {
     ...fallback,
     transform: { ...fallback.transform },
   };
@@ -343,25 +363,42 @@ export function readGroupScores(groupName: string, fallback: FmbeRecord): { chan
   return { changed, record: next };
 }
 
-export function readGroupOperation(groupName: string): GroupOperation | undefined {
-  const participant = getGroupParticipant(groupName);
+function getOperationParticipant(groupName: string, slot: number): string {
+  return slot === 0 ? getGroupParticipant(groupName) : `${getGroupParticipant(groupName)}#${slot}`;
+}
 
-  const seq = getObjective(GROUP_OPERATION_OBJECTIVES.seq)?.getScore(participant);
+function readOperation(objectives: OperationObjectives, participant: Entity | string): SequencedOperation | undefined {
+  const seq = getObjective(objectives.seq)?.getScore(participant);
   if (seq === undefined) return undefined;
 
-  const targetCode = getObjective(GROUP_OPERATION_OBJECTIVES.target)?.getScore(participant);
-  const typeCode = getObjective(GROUP_OPERATION_OBJECTIVES.type)?.getScore(participant);
-  const valueScore = getObjective(GROUP_OPERATION_OBJECTIVES.value)?.getScore(participant);
+  const targetCode = getObjective(objectives.target)?.getScore(participant);
+  const typeCode = getObjective(objectives.type)?.getScore(participant);
+  const valueScore = getObjective(objectives.value)?.getScore(participant);
   if (targetCode === undefined || typeCode === undefined || valueScore === undefined) return undefined;
 
-  const target = GROUP_TARGET_MAP[targetCode as keyof typeof GROUP_TARGET_MAP];
-  const type = GROUP_OPERATION_TYPE_MAP[typeCode as keyof typeof GROUP_OPERATION_TYPE_MAP];
+  const target = getOperationTargetByCode(targetCode);
+  const type = getOperationTypeByCode(typeCode);
   if (!target || !type) return undefined;
 
+  const alphaScore = getObjective(objectives.alpha)?.getScore(participant);
   return {
     seq,
     target,
     type,
     value: fromScore(valueScore),
+    alpha: alphaScore === undefined ? undefined : fromScore(alphaScore),
   };
 }
+
+export function readGroupOperations(groupName: string): QueuedGroupOperation[] {
+  const operations: QueuedGroupOperation[] = [];
+  for (let slot = 0; slot <= GROUP_OPERATION_QUEUE_SLOTS; slot++) {
+    const operation = readOperation(GROUP_OPERATION_OBJECTIVES, getOperationParticipant(groupName, slot));
+    if (operation) operations.push({ ...operation, slot });
+  }
+  return operations;
+}
+
+export function readEntityOperation(entity: Entity): SequencedOperation | undefined {
+  return readOperation(ENTITY_OPERATION_OBJECTIVES, entity);
+}
@@ -0,0 +1,78 @@
+import { world } from "@minecraft/server";
+import { writeWorldProperty } from "./storage.ts";
+
+const STORE_KEY = "fmbe:settings";
+
+export interface FmbeSettings {
+  historyDepth: number;
+  tickBudgetMs: number;
+  billboardIntervalTicks: number;
+}
+
+const DEFAULT_SETTINGS: FmbeSettings = {
+  historyDepth: 50,
+  tickBudgetMs: 4,
+  billboardIntervalTicks: 1,
+};
+
+const SETTING_LIMITS: Record<keyof FmbeSettings, { min: number; max: number; integer: boolean }> = {
+  historyDepth: { min: 0, max: 500, integer: true },
+  tickBudgetMs: { min: 0.5, max: 50, integer: false },
+  billboardIntervalTicks: { min: 1, max: 100, integer: true },
+};
+
+export const SETTING_KEYS = Object.keys(DEFAULT_SETTINGS) as Array<keyof FmbeSettings>;
+
+let loaded = false;
+let settings: FmbeSettings = { ...DEFAULT_SETTINGS };
+
+function ensureLoaded(): void {
+  if (loaded) return;
+
+  const raw = world.getDynamicProperty(STORE_KEY);
+  settings = { ...DEFAULT_SETTINGS };
+  if (typeof raw === "string" && raw.length > 0) {
+    try {
+      const parsed = JSON.parse(raw) as Partial<Record<keyof FmbeSettings, unknown>>;
+      for (const key of SETTING_KEYS) {
+        const value = parsed[key];
+        if (typeof value === "number" && Number.isFinite(value)) settings[key] = normalizeSetting(key, value);
+      }
+    } catch {
+      settings = { ...DEFAULT_SETTINGS };
+    }
+  }
+
+  loaded = true;
+}
+
+function save(): void {
+  writeWorldProperty(STORE_KEY, JSON.stringify(settings));
+}
+
+function normalizeSetting(key: keyof FmbeSettings, value: number): number {
+  const limit = SETTING_LIMITS[key];
+  const clamped = Math.min(limit.max, Math.max(limit.min, value));
+  return limit.integer ? Math.round(clamped) : clamped;
+}
+
+export function isSettingKey(value: string): value is keyof FmbeSettings {
+  return (SETTING_KEYS as string[]).includes(value);
+}
+
+export function getSettings(): FmbeSettings {
+  ensureLoaded();
+  return { ...settings };
+}
+
+export function getSetting<K extends keyof FmbeSettings>(key: K): FmbeSettings[K] {
+  ensureLoaded();
+  return settings[key];
+}
+
+export function setSetting(key: keyof FmbeSettings, value: number): number {
+  ensureLoaded();
+  settings[key] = normalizeSetting(key, value);
+  save();
+  return settings[key];
+}
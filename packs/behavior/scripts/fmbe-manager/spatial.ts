@@ -0,0 +1,125 @@
+import { type Vector3 } from "@minecraft/server";
+import { type FmbeRecord } from "./types.ts";
+
+const CHUNK_SIZE = 16;
+
+export const MAX_QUERY_RADIUS = 512;
+export const MAX_QUERY_SPAN = 1024;
+
+interface IndexedPosition {
+  bucket: string;
+  dimensionId: string;
+  x: number;
+  y: number;
+  z: number;
+}
+
+const buckets = new Map<string, Set<string>>();
+const positions = new Map<string, IndexedPosition>();
+
+function toChunk(value: number): number {
+  return Math.floor(value / CHUNK_SIZE);
+}
+
+function bucketKey(dimensionId: string, chunkX: number, chunkZ: number): string {
+  return `${dimensionId}|${chunkX}|${chunkZ}`;
+}
+
+function collect(
+  dimensionId: string,
+  min: Vector3,
+  max: Vector3,
+  accept: (position: IndexedPosition) => boolean
+): string[] {
+  const minX = toChunk(min.x);
+  const maxX = toChunk(max.x);
+  const minZ = toChunk(min.z);
+  const maxZ = toChunk(max.z);
+  const matched: Set<string>[] = [];
+
+  if ((maxX - minX + 1) * (maxZ - minZ + 1) > buckets.size) {
+    const prefix = `${dimensionId}|`;
+    for (const [key, ids] of buckets) {
+      if (!key.startsWith(prefix)) continue;
+      const [chunkX, chunkZ] = key.slice(prefix.length).split("|").map(Number);
+      if (chunkX! >= minX && chunkX! <= maxX && chunkZ! >= minZ && chunkZ! <= maxZ) matched.push(ids);
+    }
+  } else {
+    for (let chunkX = minX; chunkX <= maxX; chunkX++) {
+      for (let chunkZ = minZ; chunkZ <= maxZ; chunkZ++) {
+        const ids = buckets.get(bucketKey(dimensionId, chunkX, chunkZ));
+        if (ids) matched.push(ids);
+      }
+    }
+  }
+
+  const result: string[] = [];
+  for (const ids of matched) {
+    for (const id of ids) {
+      const position = positions.get(id);
+      if (position && accept(position)) result.push(id);
+    }
+  }
+  return result.sort((a, b) => a.localeCompare(b));
+}
+
+export function clearSpatialIndex(): void {
+  buckets.clear();
+  positions.clear();
+}
+
+export function indexRecord(record: FmbeRecord): void {
+  const bucket = bucketKey(record.dimensionId, toChunk(record.x), toChunk(record.z));
+  const previous = positions.get(record.id);
+  if (previous && previous.bucket !== bucket) unindexRecord(record.id);
+
+  let ids = buckets.get(bucket);
+  if (!ids) {
+    ids = new Set<string>();
+    buckets.set(bucket, ids);
+  }
+  ids.add(record.id);
+  positions.set(record.id, { bucket, dimensionId: record.dimensionId, x: record.x, y: record.y, z: record.z });
+}
+
+export function unindexRecord(id: string): void {
+  const previous = positions.get(id);
+  if (!previous) return;
+  positions.delete(id);
+  const ids = buckets.get(previous.bucket);
+  if (!ids) return;
+  ids.delete(id);
+  if (ids.size === 0) buckets.delete(previous.bucket);
+}
+
+export function queryRadius(dimensionId: string, center: Vector3, radius: number): string[] {
+  const limit = radius * radius;
+  return collect(
+    dimensionId,
+    { x: center.x - radius, y: center.y - radius, z: center.z - radius },
+    { x: center.x + radius, y: center.y + radius, z: center.z + radius },
+    (position) => {
+      const dx = position.x - center.x;
+      const dy = position.y - center.y;
+      const dz = position.z - center.z;
+      return dx * dx + dy * dy + dz * dz <= limit;
+    }
+  );
+}
+
+export function queryBox(dimensionId: string, from: Vector3, to: Vector3): string[] {
+  const min = { x: Math.min(from.x, to.x), y: Math.min(from.y, to.y), z: Math.min(from.z, to.z) };
+  const max = { x: Math.max(from.x, to.x), y: Math.max(from.y, to.y), z: Math.max(from.z, to.z) };
+  return collect(
+    dimensionId,
+    min,
+    max,
+    (position) =>
+      position.x >= min.x &&
+      position.x <= max.x &&
+      position.y >= min.y &&
+      position.y <= max.y &&
+      position.z >= min.z &&
+      position.z <= max.z
+  );
+}
@@ -1,5 +1,8 @@
+import { type FmbeRecord } from "./types.ts";
+
 const lastHitByPlayer = new Map<string, string>();
 const pendingGetByPlayer = new Set<string>();
+const previewByRecord = new Map<string, FmbeRecord>();
 
 export function setLastHit(playerId: string, entityRuntimeId: string): void {
   lastHitByPlayer.set(playerId, entityRuntimeId);
@@ -22,3 +25,15 @@ export function consumePendingGet(playerId: string): boolean {
   pendingGetByPlayer.delete(playerId);
   return true;
 }
+
+export function setPreview(recordId: string, record: FmbeRecord): void {
+  previewByRecord.set(recordId, record);
+}
+
+export function hasPreview(recordId: string): boolean {
+  return previewByRecord.has(recordId);
+}
+
+export function clearPreview(recordId: string): void {
+  previewByRecord.delete(recordId);
+}
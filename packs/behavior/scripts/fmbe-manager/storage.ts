@@ -0,0 +1,245 @@
+import { world } from "@minecraft/server";
+
+const SHARD_CHAR_LIMIT = 30000;
+
+let readOnly = false;
+
+export interface ShardedStore<T> {
+  load(): Map<string, T>;
+  set(id: string, value: T): void;
+  delete(id: string): void;
+  flush(): void;
+  migrateLegacy(): number;
+}
+
+interface ShardIndex {
+  shards: number[];
+}
+
+function entrySize(id: string, value: unknown): number {
+  return JSON.stringify(id).length + JSON.stringify(value).length + 2;
+}
+
+export function createShardedStore<T>(storeKey: string, parseEntry: (id: string, value: unknown) => T): ShardedStore<T> {
+  const indexKey = `${storeKey}:index`;
+  const shardKey = (shard: number) => `${storeKey}:${shard}`;
+
+  const entries = new Map<string, T>();
+  const shardOf = new Map<string, number>();
+  const shardMembers = new Map<number, Set<string>>();
+  const shardSizes = new Map<number, number>();
+  const dirtyShards = new Set<number>();
+  const brokenShards = new Set<number>();
+  let indexDirty = false;
+
+  function readIndex(): ShardIndex | undefined {
+    const raw = world.getDynamicProperty(indexKey);
+    if (typeof raw !== "string" || raw.length === 0) return undefined;
+    try {
+      const parsed = JSON.parse(raw) as Partial<ShardIndex>;
+      const shards = Array.isArray(parsed.shards) ? parsed.shards.filter((value) => Number.isInteger(value)) : [];
+      return { shards };
+    } catch {
+      return undefined;
+    }
+  }
+
+  function place(id: string, shard: number, size: number): void {
+    let members = shardMembers.get(shard);
+    if (!members) {
+      members = new Set<string>();
+      shardMembers.set(shard, members);
+      indexDirty = true;
+    }
+    members.add(id);
+    shardOf.set(id, shard);
+    shardSizes.set(shard, (shardSizes.get(shard) ?? 0) + size);
+    dirtyShards.add(shard);
+  }
+
+  function unplace(id: string, size: number): void {
+    const shard = shardOf.get(id);
+    if (shard === undefined) return;
+    shardMembers.get(shard)?.delete(id);
+    shardOf.delete(id);
+    shardSizes.set(shard, Math.max(0, (shardSizes.get(shard) ?? 0) - size));
+    dirtyShards.add(shard);
+  }
+
+  function pickShard(size: number): number {
+    let next = 0;
+    for (const [shard, members] of shardMembers) {
+      if (brokenShards.has(shard)) {
+        if (shard >= next) next = shard + 1;
+        continue;
+      }
+      if (members.size > 0 && (shardSizes.get(shard) ?? 0) + size <= SHARD_CHAR_LIMIT) return shard;
+      if (shard >= next) next = shard + 1;
+    }
+    for (const [shard, members] of shardMembers) {
+      if (members.size === 0 && !brokenShards.has(shard)) return shard;
+    }
+    return next;
+  }
+
+  function load(): Map<string, T> {
+    entries.clear();
+    shardOf.clear();
+    shardMembers.clear();
+    shardSizes.clear();
+    dirtyShards.clear();
+    brokenShards.clear();
+    indexDirty = false;
+
+    const index = readIndex();
+    if (!index) return entries;
+
+    for (const shard of index.shards) {
+      shardMembers.set(shard, new Set<string>());
+      shardSizes.set(shard, 0);
+
+      const raw = world.getDynamicProperty(shardKey(shard));
+      if (typeof raw !== "string" || raw.length === 0) continue;
+      try {
+        const parsed = JSON.parse(raw) as Record<string, unknown>;
+        for (const [id, value] of Object.entries(parsed)) {
+          const entry = parseEntry(id, value);
+          entries.set(id, entry);
+          shardMembers.get(shard)!.add(id);
+          shardOf.set(id, shard);
+          shardSizes.set(shard, (shardSizes.get(shard) ?? 0) + entrySize(id, entry));
+        }
+      } catch {
+        brokenShards.add(shard);
+      }
+    }
+    return entries;
+  }
+
+  function set(id: string, value: T): void {
+    const previous = entries.get(id);
+    const size = entrySize(id, value);
+    if (previous !== undefined) {
+      const shard = shardOf.get(id)!;
+      const nextSize = (shardSizes.get(shard) ?? 0) - entrySize(id, previous) + size;
+      if (nextSize <= SHARD_CHAR_LIMIT) {
+        entries.set(id, value);
+        shardSizes.set(shard, nextSize);
+        dirtyShards.add(shard);
+        return;
+      }
+      unplace(id, entrySize(id, previous));
+    }
+
+    entries.set(id, value);
+    place(id, pickShard(size), size);
+  }
+
+  function remove(id: string): void {
+    const previous = entries.get(id);
+    if (previous === undefined) return;
+    unplace(id, entrySize(id, previous));
+    entries.delete(id);
+  }
+
+  function flush(): void {
+    if (readOnly) return;
+
+    for (const shard of dirtyShards) {
+      const members = shardMembers.get(shard);
+      if (!members || members.size === 0) {
+        world.setDynamicProperty(shardKey(shard), undefined);
+        shardMembers.delete(shard);
+        shardSizes.delete(shard);
+        indexDirty = true;
+        continue;
+      }
+
+      const snapshot: Record<string, T> = {};
+      for (const id of members) snapshot[id] = entries.get(id)!;
+      world.setDynamicProperty(shardKey(shard), JSON.stringify(snapshot));
+    }
+    dirtyShards.clear();
+
+    if (!indexDirty) return;
+    const index: ShardIndex = { shards: [...shardMembers.keys()].sort((a, b) => a - b) };
+    world.setDynamicProperty(indexKey, JSON.stringify(index));
+    indexDirty = false;
+  }
+
+  function migrateLegacy(): number {
+    const raw = world.getDynamicProperty(storeKey);
+    if (typeof raw !== "string" || raw.length === 0) return 0;
+
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = JSON.parse(raw) as Record<string, unknown>;
+    } catch {
+      return 0;
+    }
+
+    load();
+    let migrated = 0;
+    for (const [id, value] of Object.entries(parsed)) {
+      if (entries.has(id)) continue;
+      set(id, parseEntry(id, value));
+      migrated++;
+    }
+    indexDirty = true;
+    flush();
+    world.setDynamicProperty(storeKey, undefined);
+    return migrated;
+  }
+
+  return { load, set, delete: remove, flush, migrateLegacy };
+}
+
+export function setStorageReadOnly(value: boolean): void {
+  readOnly = value;
+}
+
+export function isStorageReadOnly(): boolean {
+  return readOnly;
+}
+
+export function writeWorldProperty(key: string, value: string | undefined): void {
+  if (readOnly) return;
+  world.setDynamicProperty(key, value);
+}
+
+export function chunkString(value: string): string[] {
+  const chunks: string[] = [];
+  for (let offset = 0; offset < value.length; offset += SHARD_CHAR_LIMIT) {
+    chunks.push(value.slice(offset, offset + SHARD_CHAR_LIMIT));
+  }
+  return chunks;
+}
+
+export function readRawProperties(storeKey: string): Record<string, string> {
+  const keys = [storeKey, `${storeKey}:index`];
+  const index = world.getDynamicProperty(`${storeKey}:index`);
+  if (typeof index === "string") {
+    try {
+      const parsed = JSON.parse(index) as Partial<ShardIndex>;
+      for (const shard of Array.isArray(parsed.shards) ? parsed.shards : []) keys.push(`${storeKey}:${shard}`);
+    } catch {
+      // an unreadable index still gets backed up as-is
+    }
+  }
+
+  const props: Record<string, string> = {};
+  for (const key of keys) {
+    const value = world.getDynamicProperty(key);
+    if (typeof value === "string") props[key] = value;
+  }
+  return props;
+}
+
+export function writeRawProperties(storeKey: string, props: Record<string, string>): void {
+  for (const key of Object.keys(readRawProperties(storeKey))) {
+    world.setDynamicProperty(key, undefined);
+  }
+  for (const [key, value] of Object.entries(props)) {
+    world.setDynamicProperty(key, value);
+  }
+}
@@ -0,0 +1,78 @@
+import { world, type Entity } from "@minecraft/server";
+import { getRecordById, getRecordIds } from "./db.ts";
+import { findLoadedEntityForRecord, removeManagedEntity, spawnFromRecord } from "./entities.ts";
+import { getGroupForRecord, getGroupMeta } from "./groups.ts";
+import { hasPreview } from "./state.ts";
+import { type FmbeRecord } from "./types.ts";
+
+const DESPAWN_MARGIN = 4;
+const MAX_SPAWNS_PER_PASS = 16;
+
+interface ViewerPosition {
+  dimensionId: string;
+  x: number;
+  y: number;
+  z: number;
+}
+
+export function getStreamRadius(record: FmbeRecord): number {
+  if (record.streamRadius !== undefined) return Math.max(0, record.streamRadius);
+  const groupName = getGroupForRecord(record.id);
+  if (!groupName) return 0;
+  return Math.max(0, getGroupMeta(groupName)?.streamRadius ?? 0);
+}
+
+export function isStreamed(record: FmbeRecord): boolean {
+  return getStreamRadius(record) > 0;
+}
+
+function getViewerPositions(): ViewerPosition[] {
+  return world.getAllPlayers().map((player) => ({
+    dimensionId: player.dimension.id,
+    x: player.location.x,
+    y: player.location.y,
+    z: player.location.z,
+  }));
+}
+
+function isViewerWithin(viewers: ViewerPosition[], record: FmbeRecord, radius: number): boolean {
+  const limit = radius * radius;
+  return viewers.some((viewer) => {
+    if (viewer.dimensionId !== record.dimensionId) return false;
+    const dx = viewer.x - record.x;
+    const dy = viewer.y - record.y;
+    const dz = viewer.z - record.z;
+    return dx * dx + dy * dy + dz * dz <= limit;
+  });
+}
+
+export function updateStreaming(entityMap: Map<string, Entity>): void {
+  const viewers = getViewerPositions();
+  const toSpawn: FmbeRecord[] = [];
+  const toRemove: Entity[] = [];
+
+  for (const id of getRecordIds()) {
+    const record = getRecordById(id);
+    if (!record || hasPreview(id) || record.attachment) continue;
+    const radius = getStreamRadius(record);
+    if (radius <= 0) continue;
+
+    const entity = entityMap.get(id);
+    if (entity) {
+      if (!isViewerWithin(viewers, record, radius + DESPAWN_MARGIN)) toRemove.push(entity);
+      continue;
+    }
+    if (toSpawn.length < MAX_SPAWNS_PER_PASS && isViewerWithin(viewers, record, radius)) toSpawn.push(record);
+  }
+
+  for (const entity of toRemove) {
+    if (entity.isValid) removeManagedEntity(entity);
+  }
+
+  for (const record of toSpawn) {
+    const dimension = world.getDimension(record.dimensionId);
+    if (!dimension.isChunkLoaded({ x: record.x, y: record.y, z: record.z })) continue;
+    if (findLoadedEntityForRecord(record)) continue;
+    spawnFromRecord(record);
+  }
+}
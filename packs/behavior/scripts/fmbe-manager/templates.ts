@@ -0,0 +1,89 @@
+import { world } from "@minecraft/server";
+import { normalizeTransform, now } from "./helpers.ts";
+import { writeWorldProperty } from "./storage.ts";
+import { type FmbePreset, type FmbeRecord, type FmbeTemplate } from "./types.ts";
+
+const STORE_KEY = "fmbe:templates";
+
+let loaded = false;
+let templates = new Map<string, FmbeTemplate>();
+
+function ensureLoaded(): void {
+  if (loaded) return;
+
+  const raw = world.getDynamicProperty(STORE_KEY);
+  if (typeof raw !== "string" || raw.length === 0) {
+    loaded = true;
+    return;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, Record<string, unknown>>;
+    templates = new Map<string, FmbeTemplate>();
+    for (const [name, value] of Object.entries(parsed)) {
+      templates.set(name, toTemplate({ ...value, name }));
+    }
+  } catch {
+    templates = new Map<string, FmbeTemplate>();
+  }
+
+  loaded = true;
+}
+
+function save(): void {
+  const snapshot: Record<string, FmbeTemplate> = {};
+  for (const [name, template] of templates) {
+    snapshot[name] = template;
+  }
+  writeWorldProperty(STORE_KEY, JSON.stringify(snapshot));
+}
+
+function toTemplate(row: Record<string, unknown>): FmbeTemplate {
+  const preset = String(row.preset ?? "item") as FmbePreset;
+  return {
+    name: String(row.name ?? ""),
+    preset: preset === "block2d" || preset === "block3d" ? preset : "item",
+    typeId: row.typeId == null ? null : String(row.typeId),
+    transform: normalizeTransform((row.transform ?? {}) as FmbeTemplate["transform"]),
+    updatedAt: Number(row.updatedAt ?? now()),
+  };
+}
+
+export function templateFromRecord(name: string, record: FmbeRecord): FmbeTemplate {
+  const typeId = record.preset === "item" ? record.itemTypeId ?? record.blockTypeId : record.blockTypeId ?? record.itemTypeId;
+  return {
+    name,
+    preset: record.preset,
+    typeId,
+    transform: normalizeTransform(record.transform),
+    updatedAt: now(),
+  };
+}
+
+export function listTemplates(): FmbeTemplate[] {
+  ensureLoaded();
+  return [...templates.values()]
+    .map((template) => ({ ...template, transform: { ...template.transform } }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getTemplate(name: string): FmbeTemplate | undefined {
+  ensureLoaded();
+  const template = templates.get(name);
+  return template ? { ...template, transform: { ...template.transform } } : undefined;
+}
+
+export function saveTemplate(template: FmbeTemplate): boolean {
+  ensureLoaded();
+  const existed = templates.has(template.name);
+  templates.set(template.name, { ...template, transform: normalizeTransform(template.transform) });
+  save();
+  return existed;
+}
+
+export function deleteTemplate(name: string): boolean {
+  ensureLoaded();
+  if (!templates.delete(name)) return false;
+  save();
+  return true;
+}
@@ -29,5 +29,144 @@ export interface FmbeRecord {
   y: number;
   z: number;
   transform: StoredTransform;
+  streamRadius?: number;
+  motion?: RecordMotion[];
+  billboard?: Billboard;
+  attachment?: Attachment;
+  updatedAt: number;
+}
+
+export interface Attachment {
+  targetId: string;
+  offset: GroupPivot;
+  inheritYaw: boolean;
+}
+
+export type BillboardMode = "yaw" | "full";
+
+export interface Billboard {
+  mode: BillboardMode;
+  player?: string;
+}
+
+export type MotionKind = "spin" | "bob" | "orbit";
+
+export interface SpinMotion {
+  kind: "spin";
+  field: keyof StoredTransform;
+  period: number;
+  phase: number;
+}
+
+export interface BobMotion {
+  kind: "bob";
+  field: keyof StoredTransform;
+  amplitude: number;
+  period: number;
+  phase: number;
+}
+
+export interface OrbitMotion {
+  kind: "orbit";
+  radius: number;
+  period: number;
+  phase: number;
+  center: GroupPivot;
+}
+
+export type RecordMotion = SpinMotion | BobMotion | OrbitMotion;
+
+export interface FmbeTemplate {
+  name: string;
+  preset: FmbePreset;
+  typeId: string | null;
+  transform: StoredTransform;
+  updatedAt: number;
+}
+
+export interface BlueprintMember {
+  preset: FmbePreset;
+  blockTypeId: string | null;
+  itemTypeId: string | null;
+  dx: number;
+  dy: number;
+  dz: number;
+  transform: StoredTransform;
+}
+
+export interface Blueprint {
+  name: string;
+  sourceGroup: string;
+  members: BlueprintMember[];
+  createdAt: number;
+}
+
+export interface GroupTransform {
+  preset: FmbePreset;
+  x: number;
+  y: number;
+  z: number;
+  transform: StoredTransform;
+}
+
+export interface GroupPivot {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface MemberLocal {
+  x: number;
+  y: number;
+  z: number;
+  transform: StoredTransform;
+}
+
+export interface GroupMemberLocal {
+  local: MemberLocal;
+  composed: MemberLocal;
+}
+
+export interface GroupMeta {
+  streamRadius?: number;
+  transform?: GroupTransform;
+  pivot?: GroupPivot;
+  parent?: string;
+  billboard?: Billboard;
+  locals?: Record<string, GroupMemberLocal>;
+}
+
+export type RecordField = keyof StoredTransform | "x" | "y" | "z";
+
+export type AnimationEasing = "linear" | "easeIn" | "easeOut" | "easeInOut" | "step";
+export type AnimationMode = "once" | "loop" | "pingpong";
+export type AnimationState = "playing" | "paused" | "stopped";
+export type AnimationTargetKind = "record" | "group";
+
+export interface FmbeBinding {
+  name: string;
+  targetKind: AnimationTargetKind;
+  targetId: string;
+  field: RecordField;
+  expression: string;
+  updatedAt: number;
+}
+
+export interface AnimationKeyframe {
+  tick: number;
+  field: RecordField;
+  value: number;
+  easing: AnimationEasing;
+}
+
+export interface AnimationTimeline {
+  name: string;
+  targetKind: AnimationTargetKind;
+  targetId: string;
+  mode: AnimationMode;
+  state: AnimationState;
+  cursor: number;
+  direction: 1 | -1;
+  keyframes: AnimationKeyframe[];
   updatedAt: number;
 }
@@ -0,0 +1,64 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { build as esbuild } from "esbuild";
+
+const OPERATIONS_ENTRY = "packs/behavior/scripts/fmbe-manager/operations.ts";
+const START_MARKER = "<!-- fmbe:group-ops:start -->";
+const END_MARKER = "<!-- fmbe:group-ops:end -->";
+
+const READMES = [
+  { file: "README.md", language: "ja", headers: ["コード", "OpType", "効果"] },
+  { file: "README.en.md", language: "en", headers: ["Code", "OpType", "Effect"] },
+];
+
+async function loadOperations() {
+  const result = await esbuild({
+    entryPoints: [OPERATIONS_ENTRY],
+    bundle: true,
+    format: "esm",
+    platform: "node",
+    write: false,
+  });
+  const source = result.outputFiles[0].text;
+  return import(`data:text/javascript;base64,${Buffer.from(source).toString("base64")}`);
+}
+
+function renderOperations(operations, readme) {
+  const rows = operations.GROUP_OPERATION_TYPE_DEFINITIONS.map(
+    (definition, index) => `| ${index + 1} | \`${definition.type}\` | ${definition[readme.language]} |`,
+  );
+  const notes = operations.GROUP_OPERATION_TARGET_NOTES.map((note) => {
+    const code = operations.GROUP_OPERATION_TARGETS.indexOf(note.target) + 1;
+    return `- \`${code}:${note.target}\`: ${note[readme.language]}`;
+  });
+  return [
+    "`OpTarget`:",
+    "",
+    `- \`${operations.formatOperationTargetCodes()}\``,
+    ...notes,
+    "",
+    `| ${readme.headers.join(" | ")} |`,
+    "| --- | --- | --- |",
+    ...rows,
+  ].join("\n");
+}
+
+async function main() {
+  const operations = await loadOperations();
+
+  for (const readme of READMES) {
+    const text = await readFile(readme.file, "utf8");
+    const start = text.indexOf(START_MARKER);
+    const end = text.indexOf(END_MARKER);
+    if (start < 0 || end < start) throw new Error(`${readme.file}: group operation markers not found`);
+
+    const next = `${text.slice(0, start + START_MARKER.length)}\n${renderOperations(operations, readme)}\n${text.slice(end)}`;
+    if (next === text) continue;
+    await writeFile(readme.file, next);
+    console.log(`[local] updated ${readme.file}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});